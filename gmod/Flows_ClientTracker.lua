@@ -5,10 +5,20 @@ local function debugPrint(...)
     end
 end
 
+-- Relay session id: players on the same game server share one session
+local function sessionId()
+    local session = GetConVar("flows_session"):GetString()
+    if session == "" then session = game.GetIPAddress() end
+    -- The relay accepts letters, digits, "_", "." and "-"
+    return (session:gsub("[^%w_%.%-]", "-"))
+end
+
 -- Check if timer already exists
 if not timer.Exists("Flows_ClientTracker") then
     -- Create ConVar for enabling/disabling the tracker
     CreateClientConVar("flows_tracker_enabled", "1", true, false, "Enable/disable player position tracking")
+    CreateClientConVar("flows_session", "", true, false, "Relay session id (defaults to the server address)")
+    CreateClientConVar("flows_token", "", true, false, "Relay ingest token (INGEST_TOKENS on the relay)")
     
     -- Create the tracking timer
     timer.Create("Flows_ClientTracker", 0.1, 0, function()
@@ -27,22 +37,32 @@ if not timer.Exists("Flows_ClientTracker") then
         local vel = ply:GetVelocity()
         local ang = ply:EyeAngles()
         
-        -- Create data table
+        -- Create data table (telemetry schema v2, see shared/telemetry.js)
         local data = {
-            steamID = ply:SteamID64(),
-            name = ply:Nick(),
-            position = { x = pos.x, y = pos.y, z = pos.z },
-            velocity = { x = vel.x, y = vel.y, z = vel.z },
-            vel_len = vel:Length(),
-            vel_dir = math.atan2(vel.y, vel.x),
-            angles = { pitch = ang.p, yaw = ang.y, roll = ang.r }
+            v = 2,
+            players = {
+                {
+                    id = ply:SteamID64(),
+                    name = ply:Nick(),
+                    position = { x = pos.x, y = pos.y, z = pos.z },
+                    velocity = { x = vel.x, y = vel.y, z = vel.z },
+                    angles = { pitch = ang.p, yaw = ang.y, roll = ang.r },
+                    team = team.GetName(ply:Team()),
+                    health = ply:Health(),
+                    alive = ply:Alive()
+                }
+            }
         }
         
         -- Convert to JSON and send
         local jsonData = util.TableToJSON(data)
         debugPrint("Sending data:", jsonData)
+
+        local headers = { ["Content-Type"] = "application/x-www-form-urlencoded" }
+        local token = GetConVar("flows_token"):GetString()
+        if token ~= "" then headers["Authorization"] = "Bearer " .. token end
         
-        http.Post("http://127.0.0.1:3000/data",
+        http.Post("http://127.0.0.1:3000/ingest/gmod?session=" .. sessionId(),
             { data = jsonData },
             function(body) debugPrint("Data sent successfully. Response:", body) end,
             function(err) 
@@ -51,7 +71,7 @@ if not timer.Exists("Flows_ClientTracker") then
                     print("[Flows Client] IMPORTANT: Make sure http.cfg in garrysmod/cfg/ contains '127.0.0.1:3000'")
                 end
             end,
-            { ["Content-Type"] = "application/x-www-form-urlencoded" }
+            headers
         )
     end)
 end
@@ -0,0 +1,153 @@
+// server/auth.js
+// Token auth, per-token rate limits and the CORS allow-list, all configured from env.
+//
+//   INGEST_TOKENS    game servers allowed to post telemetry
+//   CONTROL_TOKENS   operators allowed to record, import and delete replays
+//   VIEW_TOKENS      viewers allowed to read /data, /live, /sessions and replays
+//   CORS_ORIGINS     comma-separated origins allowed to call the relay from a browser
+//   RATE_LIMIT_INGEST / RATE_LIMIT_CONTROL / RATE_LIMIT_VIEW   requests per token and address per minute
+//
+// Token lists are comma-separated, each entry either "token" or "name:token"; the
+// name shows up in logs instead of the secret. A scope with no tokens is left open
+// so local development keeps working, with a warning at startup. Control tokens
+// also grant view access.
+//
+// Clients send "Authorization: Bearer <token>". Browsers can't set headers on a
+// WebSocket, so the upgrades to /live and the room path also accept ?token=<token>;
+// HTTP routes don't, which keeps ingest and control secrets out of URLs and access logs.
+
+import crypto from "crypto";
+import cors from "cors";
+
+import { parseRequestUrl } from "./requestUrl.js";
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+// Requests per token and client address per minute. Every game client of a server
+// shares its tracker's token, so limits are counted per address: ingest allows a
+// server-side tracker 10 Hz for 10 players, view a few HTTP-polling viewers behind one NAT
+// (10 Hz /data plus the panel's status poll is about 700 each).
+const DEFAULT_LIMITS = { ingest: 6000, control: 120, view: 3000 };
+
+function digest(value) {
+  return crypto.createHash("sha256").update(value).digest();
+}
+
+function parseTokens(value = "") {
+  return value.split(",").map((entry) => entry.trim()).filter(Boolean).map((entry, i) => {
+    const split = entry.indexOf(":");
+    const name = split > 0 ? entry.slice(0, split) : `token${i + 1}`;
+    const token = split > 0 ? entry.slice(split + 1) : entry;
+    return { name, hash: digest(token) };
+  });
+}
+
+function readLimit(env, scope) {
+  const value = Number(env[`RATE_LIMIT_${scope.toUpperCase()}`]);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_LIMITS[scope];
+}
+
+export function readToken(req, queryToken = false) {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) return header.slice(7).trim();
+  if (!queryToken) return undefined;
+  return parseRequestUrl(req)?.searchParams.get("token") ?? undefined;
+}
+
+// Fixed one-minute windows per token and address; enough to stop a leaked token flooding the relay
+class RateLimiter {
+  constructor(limit) {
+    this.limit = limit;
+    this.windows = new Map(); // "token name@address" -> { start, count }
+  }
+
+  // Returns ms until the window resets when the request is over the limit
+  take(key) {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || now - window.start >= RATE_WINDOW_MS) {
+      if (!window) this.prune(now);
+      window = { start: now, count: 0 };
+      this.windows.set(key, window);
+    }
+    window.count++;
+    return window.count > this.limit ? window.start + RATE_WINDOW_MS - now : 0;
+  }
+
+  // Addresses come and go, so expired windows are dropped as new ones open
+  prune(now) {
+    this.windows.forEach((window, key) => {
+      if (now - window.start >= RATE_WINDOW_MS) this.windows.delete(key);
+    });
+  }
+}
+
+export class RelayAuth {
+  constructor(env = process.env) {
+    this.scopes = {
+      ingest: parseTokens(env.INGEST_TOKENS),
+      control: parseTokens(env.CONTROL_TOKENS),
+      view: parseTokens(env.VIEW_TOKENS),
+    };
+    this.limiters = {
+      ingest: new RateLimiter(readLimit(env, "ingest")),
+      control: new RateLimiter(readLimit(env, "control")),
+      view: new RateLimiter(readLimit(env, "view")),
+    };
+    this.origins = (env.CORS_ORIGINS ?? "").split(",").map((o) => o.trim()).filter(Boolean);
+
+    for (const [scope, tokens] of Object.entries(this.scopes)) {
+      if (!tokens.length) console.warn(`[AUTH] No ${scope.toUpperCase()}_TOKENS set; ${scope} endpoints are open`);
+    }
+    if (!this.origins.length) console.warn("[AUTH] No CORS_ORIGINS set; any origin may call the relay");
+  }
+
+  // Name of the matching token, or undefined
+  identify(scope, token) {
+    if (!token) return undefined;
+    const hash = digest(token);
+    const candidates = scope === "view" ? [...this.scopes.view, ...this.scopes.control] : this.scopes[scope];
+    return candidates.find((t) => crypto.timingSafeEqual(t.hash, hash))?.name;
+  }
+
+  /**
+   * Checks a request against a scope. Returns undefined when allowed, otherwise
+   * { status, error, retryAfter? } to send back. queryToken also accepts ?token=,
+   * for WebSocket upgrades only.
+   */
+  check(scope, req, { queryToken = false } = {}) {
+    if (!this.scopes[scope].length) return undefined;
+
+    const name = this.identify(scope, readToken(req, queryToken));
+    if (!name) return { status: 401, error: `Missing or invalid ${scope} token` };
+    req.tokenName = name;
+
+    // WebSocket upgrades arrive as plain Node requests without Express's req.ip
+    const address = req.ip ?? req.socket?.remoteAddress ?? "";
+    const retryMs = this.limiters[scope].take(`${name}@${address}`);
+    if (retryMs) return { status: 429, error: "Rate limit exceeded", retryAfter: Math.ceil(retryMs / 1000) };
+    return undefined;
+  }
+
+  require(scope) {
+    return (req, res, next) => {
+      const denied = this.check(scope, req);
+      if (!denied) return next();
+      if (denied.retryAfter) res.set("Retry-After", String(denied.retryAfter));
+      if (denied.status === 401) console.warn(`[AUTH] Rejected ${scope} request ${req.method} ${req.path} from ${req.ip}`);
+      res.status(denied.status).json({ error: denied.error });
+    };
+  }
+
+  // Browsers send Origin on WebSocket upgrades too, but CORS doesn't cover them
+  allowsOrigin(origin) {
+    return !this.origins.length || !origin || this.origins.includes(origin);
+  }
+
+  cors() {
+    return cors({
+      origin: this.origins.length ? this.origins : true,
+      allowedHeaders: ["Authorization", "Content-Type", "X-Flowz-Session"],
+    });
+  }
+}
@@ -0,0 +1,194 @@
+// server/recorder.js
+// Per-session recording: manual start/stop, fixed-duration and scheduled
+// recordings, player-count triggers, and a rolling buffer for "clip the last N
+// seconds". Everything that finishes is handed to `save` and becomes a regular replay.
+//
+// The recorder keeps no timers of its own; server.js calls tick() once a second
+// for every session, which starts schedules, fires triggers and ends timed recordings.
+
+const DEFAULT_BUFFER_SECONDS = 300;
+const TRIGGER_GRACE_MS = 5000;     // Player count may dip this long before a trigger recording ends
+
+export const CLIP_BUFFER_MS = (Number(process.env.CLIP_BUFFER_SECONDS) || DEFAULT_BUFFER_SECONDS) * 1000;
+
+let nextEntryId = 1;
+
+export class Recorder {
+  constructor(sessionId, save) {
+    this.sessionId = sessionId;
+    this.save = save; // (frames, { map, name }) => Promise<header | undefined>
+
+    this.ring = [];   // Recent whole-session snapshots, oldest first, from ringStart on
+    this.ringStart = 0;
+
+    this.recording = undefined; // { frames, startedAt, stopsAt, map, name, reason, minPlayers?, belowSince? }
+    this.schedules = [];        // { id, startAt, duration, map }
+    this.triggers = [];         // { id, minPlayers, duration, preRoll, cooldown, map, lastFired }
+  }
+
+  get isRecording() {
+    return this.recording !== undefined;
+  }
+
+  /** Anything that should keep the session alive while its game server is quiet. */
+  get isBusy() {
+    return this.isRecording || this.schedules.length > 0 || this.triggers.length > 0;
+  }
+
+  /** One frame per relay tick, { t, players } with every active player of the session. */
+  push(frame) {
+    this.ring.push(frame);
+    while (frame.t - this.ring[this.ringStart].t > CLIP_BUFFER_MS) this.ringStart++;
+    // Compact now and then instead of shifting on every frame
+    if (this.ringStart > 1024) {
+      this.ring = this.ring.slice(this.ringStart);
+      this.ringStart = 0;
+    }
+
+    this.recording?.frames.push(frame);
+  }
+
+  buffered(sinceMs) {
+    const from = Date.now() - sinceMs;
+    const frames = [];
+    for (let i = this.ringStart; i < this.ring.length; i++) {
+      if (this.ring[i].t >= from) frames.push(this.ring[i]);
+    }
+    return frames;
+  }
+
+  /**
+   * Start recording. `duration` (ms) ends it automatically; `preRoll` (ms) starts
+   * it with that much of the rolling buffer; `minPlayers` ends it once fewer stay active.
+   */
+  start({ map = null, name, duration, preRoll = 0, reason = "manual", minPlayers } = {}) {
+    if (this.isRecording) throw new Error("Already recording");
+
+    const now = Date.now();
+    this.recording = {
+      frames: preRoll > 0 ? this.buffered(preRoll) : [],
+      startedAt: now,
+      stopsAt: duration ? now + duration : null,
+      map,
+      name,
+      reason,
+      // Kept on the recording, so removing its trigger doesn't leave it without an end
+      minPlayers,
+      belowSince: null,
+    };
+    console.log(`[REC:${this.sessionId}] Started (${reason}${duration ? `, ${Math.round(duration / 1000)}s` : ""})`);
+  }
+
+  /** Stop and save; resolves to the saved header, or undefined when nothing was recorded. */
+  async stop() {
+    const recording = this.recording;
+    if (!recording) throw new Error("Not recording");
+    this.recording = undefined;
+    return this.save(recording.frames, { map: recording.map, name: recording.name });
+  }
+
+  /** Save the last `seconds` of the rolling buffer as a replay. */
+  async clip(seconds, { map = null, name } = {}) {
+    const frames = this.buffered(seconds * 1000);
+    return this.save(frames, { map, name: name ?? `Clip · last ${seconds}s` });
+  }
+
+  schedule({ startAt, duration, map = null }) {
+    const entry = { id: `schedule_${nextEntryId++}`, startAt, duration, map };
+    this.schedules.push(entry);
+    this.schedules.sort((a, b) => a.startAt - b.startAt);
+    return entry;
+  }
+
+  cancelSchedule(id) {
+    const before = this.schedules.length;
+    this.schedules = this.schedules.filter((s) => s.id !== id);
+    return this.schedules.length < before;
+  }
+
+  addTrigger({ minPlayers, duration = null, preRoll = 0, cooldown = 0, map = null }) {
+    const trigger = {
+      id: `trigger_${nextEntryId++}`,
+      minPlayers,
+      duration,
+      preRoll,
+      cooldown,
+      map,
+      lastFired: 0,
+    };
+    this.triggers.push(trigger);
+    return trigger;
+  }
+
+  removeTrigger(id) {
+    const before = this.triggers.length;
+    this.triggers = this.triggers.filter((t) => t.id !== id);
+    return this.triggers.length < before;
+  }
+
+  /** Called about once a second with the session's current active player count. */
+  async tick(activePlayers) {
+    const now = Date.now();
+    const recording = this.recording;
+
+    if (recording) {
+      if (recording.stopsAt && now >= recording.stopsAt) return this.finish("duration reached");
+
+      // Trigger recordings end once the player count stays below the threshold
+      if (recording.minPlayers) {
+        if (activePlayers >= recording.minPlayers) {
+          recording.belowSince = null;
+        } else {
+          recording.belowSince ??= now;
+          if (now - recording.belowSince >= TRIGGER_GRACE_MS) return this.finish(`fewer than ${recording.minPlayers} players`);
+        }
+      }
+      return;
+    }
+
+    const due = this.schedules[0];
+    if (due && now >= due.startAt) {
+      this.schedules.shift();
+      this.start({ map: due.map, duration: due.duration, reason: "scheduled", name: `Scheduled · ${new Date(due.startAt).toISOString()}` });
+      return;
+    }
+
+    const trigger = this.triggers.find((t) => activePlayers >= t.minPlayers && now - t.lastFired >= t.cooldown);
+    if (trigger) {
+      trigger.lastFired = now;
+      this.start({
+        map: trigger.map,
+        duration: trigger.duration,
+        preRoll: trigger.preRoll,
+        reason: `trigger: ${trigger.minPlayers}+ players`,
+        name: `Auto · ${trigger.minPlayers}+ players`,
+        minPlayers: trigger.minPlayers,
+      });
+    }
+  }
+
+  status() {
+    const recording = this.recording;
+    const oldest = this.ring[this.ringStart];
+    return {
+      isRecording: this.isRecording,
+      startedAt: recording?.startedAt ?? null,
+      stopsAt: recording?.stopsAt ?? null,
+      reason: recording?.reason ?? null,
+      elapsed: recording ? Date.now() - recording.startedAt : 0,
+      frameCount: recording?.frames.length ?? 0,
+      bufferedMs: oldest ? Date.now() - oldest.t : 0,
+      schedules: this.schedules.map(({ id, startAt, duration, map }) => ({ id, startAt, duration, map })),
+      triggers: this.triggers.map(({ id, minPlayers, duration, preRoll, cooldown, map }) => ({ id, minPlayers, duration, preRoll, cooldown, map })),
+    };
+  }
+
+  async finish(why) {
+    console.log(`[REC:${this.sessionId}] Stopping: ${why}`);
+    try {
+      await this.stop();
+    } catch (err) {
+      console.error(`[REC:${this.sessionId}] Failed to save recording:`, err);
+    }
+  }
+}
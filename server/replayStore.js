@@ -0,0 +1,160 @@
+// server/replayStore.js
+// Replays on disk as .flowz files (see shared/replayFormat.js), one file per replay.
+// Headers are indexed in memory at startup so listing never reads frames.
+
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+import { REPLAY_FILE_EXTENSION, decodeReplay, decodeReplayHeader, encodeReplay } from "../shared/replayFormat.js";
+import { readAnnotations } from "../shared/annotations.js";
+
+const DEFAULT_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "replays");
+const SAFE_ID = /^[\w-]+$/;
+
+// Written next to the target and renamed over it, so a crash mid-write leaves the old
+// file rather than a truncated one. The .tmp suffix keeps it out of init()'s scan.
+async function writeAtomic(file, text) {
+  const temp = `${file}.tmp`;
+  await fs.writeFile(temp, text, "utf8");
+  await fs.rename(temp, file);
+}
+
+export class ReplayStore {
+  constructor(dir = process.env.REPLAY_DIR || DEFAULT_DIR) {
+    this.dir = dir;
+    this.headers = new Map(); // id -> header
+    this.files = new Map();   // id -> file name, which need not match the id once shared or renamed by hand
+    this.queues = new Map();  // id -> the last pending change to that replay's file
+  }
+
+  async init() {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    for (const file of await fs.readdir(this.dir)) {
+      if (!file.endsWith(REPLAY_FILE_EXTENSION)) continue;
+      try {
+        const header = decodeReplayHeader(await fs.readFile(path.join(this.dir, file), "utf8"));
+        if (typeof header.id !== "string" || !header.id) throw new Error("header has no id");
+        if (this.has(header.id)) throw new Error(`duplicate of ${this.files.get(header.id)}`);
+        this.headers.set(header.id, header);
+        this.files.set(header.id, file);
+      } catch (err) {
+        console.warn(`[REPLAYS] Skipping ${file}: ${err.message}`);
+      }
+    }
+    console.log(`[REPLAYS] ${this.headers.size} replay(s) in ${this.dir}`);
+  }
+
+  list() {
+    return [...this.headers.values()].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // replay_<ms>, with a suffix when two recordings end in the same millisecond
+  newId() {
+    const base = `replay_${Date.now()}`;
+    let id = base;
+    for (let n = 2; !this.isFree(id); n++) id = `${base}_${n}`;
+    return id;
+  }
+
+  // Neither a known id nor the file name of another replay
+  isFree(id) {
+    const file = id + REPLAY_FILE_EXTENSION;
+    return !this.has(id) && ![...this.files.values()].includes(file);
+  }
+
+  has(id) {
+    return this.headers.has(id);
+  }
+
+  header(id) {
+    return this.headers.get(id);
+  }
+
+  // Known replays keep the file they were found in; new ones are named after their id
+  filePath(id) {
+    const file = this.files.get(id);
+    if (file) return path.join(this.dir, file);
+    if (!SAFE_ID.test(id)) throw new Error(`Invalid replay id "${id}"`);
+    return path.join(this.dir, id + REPLAY_FILE_EXTENSION);
+  }
+
+  async save(meta, frames) {
+    const text = encodeReplay(meta, frames);
+    const file = this.filePath(meta.id);
+    await writeAtomic(file, text);
+    const header = decodeReplayHeader(text);
+    this.headers.set(header.id, header);
+    this.files.set(header.id, path.basename(file));
+    return header;
+  }
+
+  async readText(id) {
+    if (!this.has(id)) return undefined;
+    return fs.readFile(this.filePath(id), "utf8");
+  }
+
+  async load(id) {
+    const text = await this.readText(id);
+    return text === undefined ? undefined : decodeReplay(text);
+  }
+
+  // Re-encodes so the stored file is always in the current format; keeps the
+  // file's id unless it is unsafe or already taken
+  async import(text) {
+    const { header, frames } = decodeReplay(text);
+    let id = header.id;
+    if (typeof id !== "string" || !SAFE_ID.test(id) || !this.isFree(id)) {
+      id = this.newId();
+    }
+    return this.save({ ...header, id, annotations: readAnnotations(header.annotations) }, frames);
+  }
+
+  // Changes to one replay run one after another, so a rename and an annotation save
+  // can't both read the old file and have the later write drop the other's change
+  queue(id, task) {
+    const run = (this.queues.get(id) ?? Promise.resolve()).then(task);
+    const tail = run.catch(() => {});
+    this.queues.set(id, tail);
+    tail.then(() => {
+      if (this.queues.get(id) === tail) this.queues.delete(id);
+    });
+    return run;
+  }
+
+  rename(id, name) {
+    return this.updateHeader(id, { name });
+  }
+
+  // An empty list drops the field again
+  setAnnotations(id, annotations) {
+    return this.updateHeader(id, { annotations: annotations.length ? annotations : undefined });
+  }
+
+  // Only the header line changes, so frames are copied through untouched
+  updateHeader(id, changes) {
+    return this.queue(id, async () => {
+      const text = await this.readText(id);
+      if (text === undefined) return undefined;
+
+      const newline = text.indexOf("\n");
+      const frames = newline === -1 ? "\n" : text.slice(newline);
+      const header = { ...decodeReplayHeader(text), ...changes };
+      await writeAtomic(this.filePath(id), JSON.stringify(header) + frames);
+      this.headers.set(id, header);
+      return header;
+    });
+  }
+
+  // Queued too, so a header update that is still running can't write the file back
+  remove(id) {
+    return this.queue(id, async () => {
+      if (!this.has(id)) return false;
+      await fs.rm(this.filePath(id), { force: true });
+      this.headers.delete(id);
+      this.files.delete(id);
+      return true;
+    });
+  }
+}
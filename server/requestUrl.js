@@ -0,0 +1,12 @@
+// server/requestUrl.js
+// req.url is whatever the client put on the request line, and new URL() throws on
+// some of it (e.g. "http://["). Upgrades never reach Express's error handling, so a
+// throw there would take the relay down; callers get undefined and refuse instead.
+
+export function parseRequestUrl(req) {
+  try {
+    return new URL(req.url, "http://localhost");
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,152 @@
+// server/rooms.js
+// Shared spectating rooms on /rooms?room=<id>&name=<name>. The first viewer to
+// join hosts; anyone may take over with { type: "claimHost" }, and when the host
+// leaves the longest-present viewer inherits it. The host's latest view is kept
+// for viewers who join later. Pointer hits are passed on as they come.
+//
+// Rooms exist only while someone is in them. Message shapes are in shared/rooms.d.ts.
+
+import { WebSocketServer, WebSocket } from "ws";
+
+import { MAX_NAME_LENGTH, PARTICIPANT_COLORS, ROOM_ID, readPoint, readViewState } from "../shared/rooms.js";
+import { parseRequestUrl } from "./requestUrl.js";
+
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+// Clients send view and pointer updates at most every 100 ms each (see RoomSystem),
+// so this leaves headroom; anything past it in a second is dropped, not relayed to the room
+const MAX_MESSAGES_PER_SECOND = 30;
+
+let nextParticipantId = 1;
+
+function send(socket, message) {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+export class RoomHub {
+  constructor(verifyClient) {
+    this.rooms = new Map(); // id -> { id, host, view, joined, sockets: Map<participant id, socket> }
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES, verifyClient });
+    this.wss.on("connection", (socket, req) => this.join(socket, req));
+  }
+
+  // server.js routes upgrades for ROOM_PATH here
+  handleUpgrade(req, socket, head) {
+    this.wss.handleUpgrade(req, socket, head, (ws) => this.wss.emit("connection", ws, req));
+  }
+
+  // Terminate sockets that stopped answering pings, like the live stream does
+  heartbeat() {
+    this.wss.clients.forEach((socket) => {
+      if (!socket.isAlive) return socket.terminate();
+      socket.isAlive = false;
+      socket.ping();
+    });
+  }
+
+  join(socket, req) {
+    const params = parseRequestUrl(req)?.searchParams;
+    const roomId = params?.get("room") ?? "";
+    if (!ROOM_ID.test(roomId)) return socket.close(1008, "Invalid room id");
+
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = { id: roomId, host: undefined, view: null, joined: 0, sockets: new Map() };
+      this.rooms.set(roomId, room);
+    }
+
+    const id = `p${nextParticipantId++}`;
+    const name = (params.get("name") ?? "").trim().slice(0, MAX_NAME_LENGTH) || `Viewer ${room.joined + 1}`;
+    const participant = { id, name, color: PARTICIPANT_COLORS[room.joined % PARTICIPANT_COLORS.length] };
+    room.joined++;
+
+    socket.participant = participant;
+    socket.budget = { start: 0, count: 0 };
+    socket.isAlive = true;
+    socket.on("pong", () => { socket.isAlive = true; });
+    socket.on("message", (data) => this.receive(room, socket, data));
+    socket.on("close", () => this.leave(room, socket));
+
+    room.sockets.set(id, socket);
+    room.host ??= id;
+
+    send(socket, {
+      type: "welcome",
+      room: room.id,
+      id,
+      host: room.host,
+      participants: [...room.sockets.values()].map((s) => s.participant),
+      view: room.view,
+    });
+    this.broadcast(room, { type: "joined", participant }, socket);
+    console.log(`[ROOM:${room.id}] ${name} joined (${room.sockets.size} in room)`);
+  }
+
+  receive(room, socket, data) {
+    if (!this.take(socket)) return;
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    const { id } = socket.participant;
+
+    switch (message?.type) {
+      case "view": {
+        if (room.host !== id) return;
+        const view = readViewState(message.view);
+        if (!view) return;
+        room.view = view;
+        this.broadcast(room, { type: "view", view }, socket);
+        break;
+      }
+      case "pointer": {
+        const point = readPoint(message.point);
+        if (point === undefined || typeof message.map !== "string") return;
+        this.broadcast(room, { type: "pointer", id, map: message.map, point }, socket);
+        break;
+      }
+      case "claimHost":
+        if (room.host === id) return;
+        room.host = id;
+        this.broadcast(room, { type: "host", id });
+        console.log(`[ROOM:${room.id}] ${socket.participant.name} is hosting`);
+        break;
+    }
+  }
+
+  // Fixed one-second windows per socket; false once the socket is over its budget
+  take(socket) {
+    const now = Date.now();
+    const budget = socket.budget;
+    if (now - budget.start >= 1000) {
+      budget.start = now;
+      budget.count = 0;
+    }
+    return ++budget.count <= MAX_MESSAGES_PER_SECOND;
+  }
+
+  leave(room, socket) {
+    const { id, name } = socket.participant;
+    room.sockets.delete(id);
+    console.log(`[ROOM:${room.id}] ${name} left (${room.sockets.size} in room)`);
+
+    if (!room.sockets.size) {
+      this.rooms.delete(room.id);
+      return;
+    }
+    this.broadcast(room, { type: "left", id });
+    if (room.host === id) {
+      // Maps iterate in insertion order, so this is whoever has been here longest
+      room.host = room.sockets.keys().next().value;
+      this.broadcast(room, { type: "host", id: room.host });
+    }
+  }
+
+  broadcast(room, message, except) {
+    room.sockets.forEach((socket) => {
+      if (socket !== except) send(socket, message);
+    });
+  }
+}
@@ -1,130 +1,476 @@
-const express = require("express");
-const bodyParser = require("body-parser");
-const cors = require("cors");
+import http from "http";
+import express from "express";
+import bodyParser from "body-parser";
+import { WebSocketServer, WebSocket } from "ws";
+
+import { TELEMETRY_VERSION, formatIssues } from "../shared/telemetry.js";
+import { DEFAULT_ADAPTER_ID, adapters, decodeWithAdapter, getAdapter } from "../shared/adapters/index.js";
+import { REPLAY_FILE_EXTENSION, ReplayFormatError } from "../shared/replayFormat.js";
+import { ReplayStore } from "./replayStore.js";
+import { CLIP_BUFFER_MS, Recorder } from "./recorder.js";
+import { RelayAuth } from "./auth.js";
+import { ROUTES, toReplaySummary } from "../shared/routes.js";
+import { ROOM_PATH } from "../shared/rooms.js";
+import { MAX_ANNOTATIONS, readAnnotations } from "../shared/annotations.js";
+import { RoomHub } from "./rooms.js";
+import { parseRequestUrl } from "./requestUrl.js";
 
 const app = express();
+const server = http.createServer(app);
 const PORT = process.env.PORT || 3000;
+const STALE_PLAYER_MS = 5000;
+const HEARTBEAT_MS = 30000;
+const RECORDER_TICK_MS = 1000;
 
 // ---------- Middleware ----------
-app.use(cors());
+const auth = new RelayAuth(); // Tokens, rate limits and CORS origins from env (see auth.js)
+app.use(auth.cors());
 app.use(bodyParser.urlencoded({ extended: true }));
-app.use(bodyParser.json());
+// Annotation lists outgrow the 100kb default, so their route parses its own body once the
+// control token is checked (see 8.); every other JSON body keeps the default limit
+const ANNOTATIONS_SAVE_PATH = /^\/replays\/[^/]+\/annotations\/?$/;
+const parseJson = bodyParser.json();
+app.use((req, res, next) => {
+  const annotationsSave = req.method === ROUTES.replayAnnotationsSave.method && ANNOTATIONS_SAVE_PATH.test(req.path);
+  annotationsSave ? next() : parseJson(req, res, next);
+});
+
+// ---------- Sessions ----------
+// One session per game server so concurrent matches don't overwrite each other.
+// Ingest, /data, recording and the live stream are all scoped to a session,
+// chosen with ?session=<id> or an X-Flowz-Session header ("default" when absent).
+const DEFAULT_SESSION = "default";
+const SESSION_ID = /^[\w.-]{1,64}$/;
+const STALE_SESSION_MS = 10 * 60 * 1000;
+
+const sessions = new Map(); // id -> session
+const replays = new ReplayStore(); // .flowz files under REPLAY_DIR (default server/replays)
+
+function createSession(id) {
+  const session = {
+    id,
+    players: new Map(), // Live state, keyed by player id (steamID64 for GMod)
+    adapterId: DEFAULT_ADAPTER_ID, // Adapter of the most recent ingest
+    lastSeen: Date.now(),
+  };
+  session.recorder = new Recorder(id, (frames, meta) => saveRecording(session, frames, meta));
+  return session;
+}
+
+// Every way of recording (manual, clip, schedule, trigger) ends up here
+async function saveRecording(session, frames, { map, name }) {
+  if (!frames.length) return undefined;
+
+  const adapter = getAdapter(session.adapterId);
+  const header = await replays.save({
+    id: replays.newId(),
+    name,
+    session: session.id,
+    map,
+    adapter: adapter.id,
+    tickRate: adapter.tickRate,
+    telemetryVersion: TELEMETRY_VERSION,
+  }, frames);
+  console.log(`[REC:${session.id}] Saved ${header.id} (${frames.length} frames)`);
+  return header;
+}
 
-// ---------- State ----------
-const players = new Map(); // Live state
-let isRecording = false;
-let currentReplayBuffer = [];
-let savedReplays = []; // In-Memory Storage (Clears on restart)
+// Express 4 doesn't catch rejected promises, so an async handler that throws
+// would take the relay down; this answers 500 instead
+function asyncRoute(label, handler) {
+  return (req, res, next) => handler(req, res, next).catch((err) => {
+    console.error(`[${label}] ${req.method} ${req.originalUrl} failed:`, err);
+    if (!res.headersSent) res.status(500).json({ error: "Server error" });
+  });
+}
+
+// Undefined when the requested id is malformed
+function sessionIdOf(req) {
+  const id = req.query.session ?? req.get("x-flowz-session") ?? DEFAULT_SESSION;
+  return typeof id === "string" && SESSION_ID.test(id) ? id : undefined;
+}
+
+// Only ingest and recording create sessions; viewers asking for an unknown one see it empty
+function resolveSession(create) {
+  return (req, res, next) => {
+    const id = sessionIdOf(req);
+    if (!id) return res.status(400).json({ error: "Invalid session id" });
+
+    let session = sessions.get(id);
+    if (!session) {
+      session = createSession(id);
+      if (create) sessions.set(id, session);
+    }
+    req.session = session;
+    next();
+  };
+}
+
+// Drops players that haven't reported for STALE_PLAYER_MS and returns the rest
+function getActivePlayers(session) {
+  const now = Date.now();
+  const activePlayers = [];
+
+  session.players.forEach((data, id) => {
+    if (now - data.t < STALE_PLAYER_MS) {
+      activePlayers.push(data);
+    } else {
+      session.players.delete(id);
+    }
+  });
+
+  return activePlayers;
+}
+
+// Forget sessions whose game server went quiet, unless they have recordings pending
+function pruneSessions() {
+  const now = Date.now();
+  sessions.forEach((session, id) => {
+    if (id === DEFAULT_SESSION || session.recorder.isBusy) return;
+    if (now - session.lastSeen > STALE_SESSION_MS) sessions.delete(id);
+  });
+}
+
+// ---------- Live Stream (Server -> App over WebSocket) ----------
+// Viewers connect to /live?session=<id>
+function verifyViewer({ req }, done) {
+  if (!auth.allowsOrigin(req.headers.origin)) return done(false, 403, "Origin not allowed");
+  const denied = auth.check("view", req, { queryToken: true });
+  denied ? done(false, denied.status, denied.error) : done(true);
+}
+
+const wss = new WebSocketServer({ noServer: true, verifyClient: verifyViewer });
+const rooms = new RoomHub(verifyViewer); // Shared spectating rooms (see rooms.js)
+
+// Both WebSocket endpoints share the HTTP server, so upgrades are routed by path
+server.on("upgrade", (req, socket, head) => {
+  const pathname = parseRequestUrl(req)?.pathname;
+  if (pathname === "/live") {
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  } else if (pathname === ROOM_PATH) {
+    rooms.handleUpgrade(req, socket, head);
+  } else {
+    socket.destroy();
+  }
+});
+const pendingBroadcasts = new Set(); // session ids
+
+function sendPlayers(socket, session, activePlayers) {
+  if (socket.readyState !== WebSocket.OPEN) return;
+  socket.send(JSON.stringify({
+    type: "players",
+    v: TELEMETRY_VERSION,
+    session: session.id,
+    adapter: session.adapterId,
+    players: activePlayers,
+  }));
+}
+
+// Coalesce bursts of POSTs (one per game client) into a single push per tick.
+// Recordings get the same whole-session snapshot: a single POST only carries the
+// players of the client that sent it, and a replay frame must hold everyone.
+function scheduleBroadcast(session) {
+  if (pendingBroadcasts.has(session.id)) return;
+  pendingBroadcasts.add(session.id);
+  setImmediate(() => {
+    pendingBroadcasts.delete(session.id);
+    const activePlayers = getActivePlayers(session);
+    session.recorder.push({ t: Date.now(), players: activePlayers });
+    wss.clients.forEach((socket) => {
+      if (socket.sessionId === session.id) sendPlayers(socket, session, activePlayers);
+    });
+  });
+}
+
+wss.on("connection", (socket, req) => {
+  const id = parseRequestUrl(req)?.searchParams.get("session") ?? DEFAULT_SESSION;
+  if (!SESSION_ID.test(id)) return socket.close(1008, "Invalid session id");
+
+  socket.sessionId = id;
+  socket.isAlive = true;
+  socket.on("pong", () => { socket.isAlive = true; });
+
+  // Send a snapshot right away so viewers don't wait for the next POST
+  const session = sessions.get(id) ?? createSession(id);
+  sendPlayers(socket, session, getActivePlayers(session));
+  console.log(`[WS] Viewer connected to ${id} (${wss.clients.size} total)`);
+});
+
+// Terminate sockets that stopped answering pings (e.g. headset went to sleep)
+const heartbeat = setInterval(() => {
+  wss.clients.forEach((socket) => {
+    if (!socket.isAlive) return socket.terminate();
+    socket.isAlive = false;
+    socket.ping();
+  });
+  rooms.heartbeat();
+  pruneSessions();
+}, HEARTBEAT_MS);
+
+// The WebSocket servers have no server of their own (noServer), so only the HTTP server ever closes
+server.on("close", () => clearInterval(heartbeat));
+
+// ---------- Session List ----------
+app.get(ROUTES.sessions.path, auth.require("view"), (req, res) => {
+  pruneSessions();
+  res.json([...sessions.values()].map((session) => ({
+    id: session.id,
+    adapter: session.adapterId,
+    playerCount: getActivePlayers(session).length,
+    isRecording: session.recorder.isRecording,
+    lastSeen: session.lastSeen,
+  })));
+});
 
 // ---------- Control Endpoints ----------
 
-// 1. Start Recording
-app.post("/record/start", (req, res) => {
-  if (isRecording) return res.status(400).json({ error: "Already recording" });
-  
-  isRecording = true;
-  currentReplayBuffer = []; // Reset buffer
-  console.log("[REC] Started");
-  res.json({ status: "recording_started" });
+// Durations and offsets in request bodies are in seconds
+function readSeconds(value, { min = 1, max = 24 * 60 * 60 } = {}) {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= min && seconds <= max ? seconds : undefined;
+}
+
+function readMap(body) {
+  return typeof body?.map === "string" ? body.map : null;
+}
+
+// 1. Start Recording (optional { duration } in seconds stops it automatically)
+app.post(ROUTES.recordStart.path, auth.require("control"), resolveSession(true), (req, res) => {
+  const { recorder, id } = req.session;
+  if (recorder.isRecording) return res.status(400).json({ error: "Already recording" });
+
+  const duration = req.body?.duration === undefined ? undefined : readSeconds(req.body.duration);
+  if (req.body?.duration !== undefined && !duration) return res.status(400).json({ error: "duration must be 1-86400 seconds" });
+
+  recorder.start({ map: readMap(req.body), duration: duration && duration * 1000, reason: req.tokenName ? `manual, ${req.tokenName}` : "manual" });
+  res.json({ status: "recording_started", session: id });
 });
 
 // 2. Stop Recording
-app.post("/record/stop", (req, res) => {
-  if (!isRecording) return res.status(400).json({ error: "Not recording" });
-
-  isRecording = false;
-  const id = `replay_${Date.now()}`;
-  
-  if (currentReplayBuffer.length > 0) {
-    savedReplays.push({
-      id: id,
-      timestamp: Date.now(),
-      frames: currentReplayBuffer,
-      duration: currentReplayBuffer.length * 100 // Approx duration
-    });
-    console.log(`[REC] Stopped. Saved ${id} (${currentReplayBuffer.length} frames)`);
+app.post(ROUTES.recordStop.path, auth.require("control"), resolveSession(false), async (req, res) => {
+  const { recorder, id } = req.session;
+  if (!recorder.isRecording) return res.status(400).json({ error: "Not recording" });
+
+  try {
+    const header = await recorder.stop();
+    res.json({ status: "recording_stopped", session: id, id: header?.id ?? null });
+  } catch (err) {
+    console.error(`[REC:${id}] Failed to save recording:`, err);
+    res.status(500).json({ error: "Could not save replay" });
   }
+});
 
-  res.json({ status: "recording_stopped", id: id });
+// Polled by the replay panel for its recording indicator
+app.get(ROUTES.recordStatus.path, auth.require("view"), resolveSession(false), (req, res) => {
+  res.json({ session: req.session.id, ...req.session.recorder.status() });
 });
 
-// 3. List Replays
-app.get("/replays", (req, res) => {
-  // Send metadata only (not full frames) to save bandwidth
-  const meta = savedReplays.map(r => ({
-    id: r.id,
-    timestamp: r.timestamp,
-    frameCount: r.frames.length
-  }));
-  res.json(meta);
+// Save the last { seconds } of the session as a replay, no Start needed
+app.post(ROUTES.recordClip.path, auth.require("control"), resolveSession(false), async (req, res) => {
+  const { recorder, id } = req.session;
+  const seconds = readSeconds(req.body?.seconds, { max: CLIP_BUFFER_MS / 1000 });
+  if (!seconds) return res.status(400).json({ error: `seconds must be 1-${CLIP_BUFFER_MS / 1000}` });
+
+  try {
+    const header = await recorder.clip(seconds, {
+      map: readMap(req.body),
+      name: typeof req.body?.name === "string" ? req.body.name : undefined,
+    });
+    if (!header) return res.status(404).json({ error: `Nothing received in the last ${seconds}s` });
+    res.status(201).json({ status: "clipped", session: id, id: header.id, frameCount: header.frameCount });
+  } catch (err) {
+    console.error(`[REC:${id}] Failed to save clip:`, err);
+    res.status(500).json({ error: "Could not save replay" });
+  }
 });
 
-// 4. Load Specific Replay
-app.get("/replays/:id", (req, res) => {
-  const replay = savedReplays.find(r => r.id === req.params.id);
-  if (!replay) return res.status(404).json({ error: "Replay not found" });
-  res.json(replay.frames);
+// Fixed-duration recording that starts at { startAt } (ms since epoch) or after { delay } seconds
+app.post(ROUTES.recordSchedules.path, auth.require("control"), resolveSession(true), (req, res) => {
+  const duration = readSeconds(req.body?.duration);
+  if (!duration) return res.status(400).json({ error: "duration must be 1-86400 seconds" });
+
+  const startAt = req.body?.startAt !== undefined
+    ? Number(req.body.startAt)
+    : Date.now() + (readSeconds(req.body?.delay, { min: 0 }) ?? 0) * 1000;
+  if (!Number.isFinite(startAt)) return res.status(400).json({ error: "startAt must be ms since epoch" });
+
+  const entry = req.session.recorder.schedule({ startAt, duration: duration * 1000, map: readMap(req.body) });
+  console.log(`[REC:${req.session.id}] Scheduled ${entry.id} at ${new Date(startAt).toISOString()} for ${duration}s`);
+  res.status(201).json(entry);
 });
 
-// ---------- Main Data Bridge (GMod -> Server) ----------
-app.post("/", (req, res) => {
-  try {
-    // GMod sends data wrapped in a "data" form field
-    const rawData = req.body.data;
-    if (!rawData) return res.status(400).json({ error: 'Missing "data"' });
+app.delete(ROUTES.recordSchedule.path, auth.require("control"), resolveSession(false), (req, res) => {
+  if (!req.session.recorder.cancelSchedule(req.params.id)) return res.status(404).json({ error: "Schedule not found" });
+  res.json({ status: "deleted", id: req.params.id });
+});
 
-    let parsedPayload;
-    try {
-      parsedPayload = JSON.parse(rawData);
-    } catch (e) {
-      return res.status(400).json({ error: "Invalid JSON" });
-    }
+// Start recording whenever { minPlayers } are active; it stops when they drop below,
+// after { duration } seconds if given. { preRoll } seconds before the trigger are kept.
+app.post(ROUTES.recordTriggers.path, auth.require("control"), resolveSession(true), (req, res) => {
+  const minPlayers = Number(req.body?.minPlayers);
+  if (!Number.isInteger(minPlayers) || minPlayers < 1) return res.status(400).json({ error: "minPlayers must be a positive integer" });
 
-    const now = Date.now();
+  const duration = readSeconds(req.body?.duration);
+  const preRoll = readSeconds(req.body?.preRoll, { min: 0, max: CLIP_BUFFER_MS / 1000 }) ?? 0;
+  const cooldown = readSeconds(req.body?.cooldown, { min: 0 }) ?? 60;
 
-    // A. Update Live Map
-    if (parsedPayload.players && Array.isArray(parsedPayload.players)) {
-      parsedPayload.players.forEach((p) => {
-        if (p.name) players.set(p.name, { ...p, t: now });
-      });
-    } else if (parsedPayload.name) {
-      // Legacy single-player fallback
-      players.set(parsedPayload.name, { ...parsedPayload, t: now });
-    }
+  const trigger = req.session.recorder.addTrigger({
+    minPlayers,
+    duration: duration ? duration * 1000 : null,
+    preRoll: preRoll * 1000,
+    cooldown: cooldown * 1000,
+    map: readMap(req.body),
+  });
+  console.log(`[REC:${req.session.id}] Added ${trigger.id}: record at ${minPlayers}+ players`);
+  res.status(201).json({ id: trigger.id, minPlayers, duration: trigger.duration, preRoll: trigger.preRoll, cooldown: trigger.cooldown, map: trigger.map });
+});
 
-    // B. VCR Recording
-    if (isRecording) {
-      // Store the raw list of players for this frame
-      currentReplayBuffer.push({
-        t: now,
-        players: parsedPayload.players || [parsedPayload]
-      });
-    }
+app.delete(ROUTES.recordTrigger.path, auth.require("control"), resolveSession(false), (req, res) => {
+  if (!req.session.recorder.removeTrigger(req.params.id)) return res.status(404).json({ error: "Trigger not found" });
+  res.json({ status: "deleted", id: req.params.id });
+});
 
-    res.status(200).json({ status: "ok" });
+// Starts schedules, fires triggers and ends timed recordings
+setInterval(() => {
+  sessions.forEach((session) => session.recorder.tick(getActivePlayers(session).length));
+}, RECORDER_TICK_MS);
+
+// 3. List Replays (?session=<id> to only list that session's recordings)
+app.get(ROUTES.replays.path, auth.require("view"), (req, res) => {
+  const session = req.query.session;
+  // Send headers only (not full frames) to save bandwidth
+  res.json(replays.list().filter((h) => !session || h.session === session).map(toReplaySummary));
+});
+
+// 4. Import a .flowz file (raw file contents as the body)
+app.post(ROUTES.replayImport.path, auth.require("control"), bodyParser.text({ type: "*/*", limit: "50mb" }), async (req, res) => {
+  if (typeof req.body !== "string" || !req.body.length) {
+    return res.status(400).json({ error: "Expected a replay file as the request body" });
+  }
+  try {
+    const header = await replays.import(req.body);
+    console.log(`[REPLAYS] Imported ${header.id} (${header.frameCount} frames)`);
+    res.status(201).json({ status: "imported", id: header.id });
   } catch (err) {
-    console.error("POST / error:", err);
+    if (err instanceof ReplayFormatError) return res.status(400).json({ error: err.message });
+    console.error("[REPLAYS] Import failed:", err);
     res.status(500).json({ error: "Server error" });
   }
 });
 
-// ---------- Live Data Poll (App -> Server) ----------
-app.get("/data", (req, res) => {
-  const now = Date.now();
-  const activePlayers = [];
+// 5. Load Specific Replay
+app.get(ROUTES.replay.path, auth.require("view"), asyncRoute("REPLAYS", async (req, res) => {
+  const replay = await replays.load(req.params.id);
+  if (!replay) return res.status(404).json({ error: "Replay not found" });
+  res.json(replay.frames);
+}));
 
-  players.forEach((data, name) => {
-    // 5-second timeout for stale players
-    if (now - data.t < 5000) {
-      activePlayers.push(data);
-    } else {
-      players.delete(name);
+// 6. Download the .flowz file
+app.get(ROUTES.replayDownload.path, auth.require("view"), asyncRoute("REPLAYS", async (req, res) => {
+  const text = await replays.readText(req.params.id);
+  if (text === undefined) return res.status(404).json({ error: "Replay not found" });
+  res.attachment(req.params.id + REPLAY_FILE_EXTENSION);
+  res.type("application/x-ndjson").send(text);
+}));
+
+// 7. Rename Replay (JSON body { name })
+app.patch(ROUTES.replayRename.path, auth.require("control"), asyncRoute("REPLAYS", async (req, res) => {
+  const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+  if (!name || name.length > 120) return res.status(400).json({ error: "Expected a name of 1-120 characters" });
+
+  const header = await replays.rename(req.params.id, name);
+  if (!header) return res.status(404).json({ error: "Replay not found" });
+  res.json(toReplaySummary(header));
+}));
+
+// 8. Telestration drawn on a replay (JSON body { annotations } replaces the whole list)
+app.get(ROUTES.replayAnnotations.path, auth.require("view"), (req, res) => {
+  const header = replays.header(req.params.id);
+  if (!header) return res.status(404).json({ error: "Replay not found" });
+  res.json({ id: header.id, annotations: header.annotations ?? [] });
+});
+
+// Up to MAX_ANNOTATIONS strokes of MAX_STROKE_POINTS points each
+const parseAnnotations = bodyParser.json({ limit: "50mb" });
+app.put(ROUTES.replayAnnotationsSave.path, auth.require("control"), parseAnnotations, asyncRoute("REPLAYS", async (req, res) => {
+  const list = req.body?.annotations;
+  if (!Array.isArray(list) || list.length > MAX_ANNOTATIONS) {
+    return res.status(400).json({ error: `Expected { annotations } with at most ${MAX_ANNOTATIONS} entries` });
+  }
+  const annotations = readAnnotations(list);
+  if (annotations.length !== list.length) return res.status(400).json({ error: "Invalid annotation" });
+
+  const header = await replays.setAnnotations(req.params.id, annotations);
+  if (!header) return res.status(404).json({ error: "Replay not found" });
+  res.json({ id: header.id, annotations });
+}));
+
+// 9. Delete Replay
+app.delete(ROUTES.replayDelete.path, auth.require("control"), asyncRoute("REPLAYS", async (req, res) => {
+  if (!(await replays.remove(req.params.id))) return res.status(404).json({ error: "Replay not found" });
+  console.log(`[REPLAYS] Deleted ${req.params.id}${req.tokenName ? ` by ${req.tokenName}` : ""}`);
+  res.json({ status: "deleted", id: req.params.id });
+}));
+
+// ---------- Adapters ----------
+app.get(ROUTES.adapters.path, (req, res) => {
+  res.json(Object.values(adapters).map(({ id, name, tickRate, coordinateSystem, entityKinds }) => ({
+    id, name, tickRate, coordinateSystem, entityKinds
+  })));
+});
+
+// ---------- Main Data Bridge (Game -> Server) ----------
+// POST /ingest/:adapter decodes the game's native payload; POST / is the original GMod route
+function ingest(adapterId) {
+  return (req, res) => {
+    const session = req.session;
+    try {
+      const adapter = getAdapter(adapterId ?? req.params.adapter);
+      if (!adapter) return res.status(404).json({ error: `Unknown adapter "${req.params.adapter}"` });
+      if (!req.body || (typeof req.body === "object" && !Object.keys(req.body).length)) {
+        return res.status(400).json({ error: "Empty body" });
+      }
+
+      // Validates and upgrades any known payload version to the current schema
+      const { packet, sourceVersion, errors, warnings } = decodeWithAdapter(adapter, req.body);
+      if (!packet) {
+        console.warn(`[INGEST:${session.id}:${adapter.id}] Rejected packet: ${formatIssues(errors)}`);
+        return res.status(400).json({ error: "Invalid telemetry", issues: errors });
+      }
+      if (errors.length) {
+        console.warn(`[INGEST:${session.id}:${adapter.id}] Dropped players from v${sourceVersion} packet: ${formatIssues(errors)}`);
+      }
+      const now = Date.now();
+      session.adapterId = adapter.id;
+      session.lastSeen = now;
+
+      // A. Update Live Map (by id, so two players sharing a nickname stay apart)
+      packet.players.forEach((p) => {
+        session.players.set(p.id, { ...p, t: now });
+      });
+
+      // B. Live push and VCR recording (rolling clip buffer, plus any recording in progress)
+      scheduleBroadcast(session);
+      res.status(200).json({ status: "ok", v: TELEMETRY_VERSION, rejected: errors, warnings });
+    } catch (err) {
+      console.error("POST ingest error:", err);
+      res.status(500).json({ error: "Server error" });
     }
-  });
+  };
+}
 
-  res.json({ players: activePlayers });
+app.post("/", auth.require("ingest"), resolveSession(true), ingest(DEFAULT_ADAPTER_ID));
+app.post(ROUTES.ingest.path, auth.require("ingest"), resolveSession(true), ingest());
+
+// ---------- Live Data Poll (App -> Server) ----------
+// Kept as the fallback for clients that can't hold a WebSocket open
+app.get(ROUTES.data.path, auth.require("view"), resolveSession(false), (req, res) => {
+  const session = req.session;
+  res.json({ v: TELEMETRY_VERSION, session: session.id, adapter: session.adapterId, players: getActivePlayers(session) });
 });
 
-app.listen(PORT, () => {
+await replays.init();
+
+server.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
 });
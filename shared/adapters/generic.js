@@ -0,0 +1,34 @@
+// shared/adapters/generic.js – any source that already speaks the current schema as JSON
+import { normalizePacket } from "../telemetry.js";
+
+const DEG = Math.PI / 180;
+
+export const genericAdapter = {
+  id: "generic",
+  name: "Generic JSON",
+  tickRate: 10,
+
+  // Y up, right-handed metres (three.js conventions)
+  coordinateSystem: {
+    up: "y",
+    handedness: "right",
+    unitsPerMeter: 1,
+  },
+
+  entityKinds: {
+    player: "player",
+    npc: "npc",
+    objective: "objective",
+  },
+
+  decode(body) {
+    return normalizePacket(body);
+  },
+
+  // Yaw around +Y from -Z, +pitch looks up
+  lookDirection({ pitch, yaw }) {
+    const p = pitch * DEG;
+    const y = yaw * DEG;
+    return { x: -Math.cos(p) * Math.sin(y), y: Math.sin(p), z: -Math.cos(p) * Math.cos(y) };
+  },
+};
@@ -0,0 +1,39 @@
+// shared/adapters/gmod.js – Garry's Mod (Source engine) via gmod/Flows_ClientTracker.lua
+import { normalizePacket } from "../telemetry.js";
+
+const DEG = Math.PI / 180;
+
+export const gmodAdapter = {
+  id: "gmod",
+  name: "Garry's Mod",
+  tickRate: 10,                   // timer.Create("Flows_ClientTracker", 0.1, ...)
+
+  // Source: Z up, right-handed, 1 hammer unit = 1 inch (~52.49 units per metre)
+  coordinateSystem: {
+    up: "z",
+    handedness: "right",
+    unitsPerMeter: 52.49,
+  },
+
+  // Entity:GetClass() prefixes → visualizer kinds
+  entityKinds: {
+    player: "player",
+    npc_: "npc",
+    nextbot: "npc",
+    item_: "objective",
+    prop_: "objective",
+  },
+
+  // http.Post form-encodes the JSON into a "data" field
+  decode(body) {
+    const raw = body !== null && typeof body === "object" && "data" in body ? body.data : body;
+    return normalizePacket(raw);
+  },
+
+  // EyeAngles(): degrees, +pitch looks down, yaw counter-clockwise from +X
+  lookDirection({ pitch, yaw }) {
+    const p = pitch * DEG;
+    const y = yaw * DEG;
+    return { x: Math.cos(p) * Math.cos(y), y: Math.cos(p) * Math.sin(y), z: -Math.sin(p) };
+  },
+};
@@ -0,0 +1,27 @@
+// shared/adapters/index.d.ts – types for the adapter registry
+import type { EntityKind, NormalizeResult, TelemetryAngles, Vec3 } from "../telemetry.js";
+
+export interface CoordinateSystem {
+  up: "x" | "y" | "z";
+  handedness: "left" | "right";
+  unitsPerMeter: number;
+}
+
+/** Everything the relay and visualizer need to know about one game source. */
+export interface TelemetryAdapter {
+  id: string;
+  name: string;
+  tickRate: number;                           // Reports per second the source sends
+  coordinateSystem: CoordinateSystem;
+  entityKinds: Record<string, EntityKind>;    // Native class (or "prefix_") → kind
+  /** Turn the source's native ingest body into a current-version packet. */
+  decode(body: unknown): NormalizeResult;
+  /** Unit look vector in game space for the source's angle convention. */
+  lookDirection(angles: TelemetryAngles): Vec3;
+}
+
+export declare const DEFAULT_ADAPTER_ID: "gmod";
+export declare const adapters: Record<string, TelemetryAdapter>;
+export declare function getAdapter(id: string): TelemetryAdapter | undefined;
+export declare function resolveEntityKind(adapter: TelemetryAdapter, nativeKind: unknown): EntityKind;
+export declare function decodeWithAdapter(adapter: TelemetryAdapter, body: unknown): NormalizeResult;
@@ -0,0 +1,40 @@
+// shared/adapters/index.js
+// Registry of game telemetry adapters. To support a new game, add a module that
+// exports a TelemetryAdapter (see index.d.ts) and list it here.
+import { genericAdapter } from "./generic.js";
+import { gmodAdapter } from "./gmod.js";
+
+export const DEFAULT_ADAPTER_ID = "gmod";
+
+export const adapters = {
+  [gmodAdapter.id]: gmodAdapter,
+  [genericAdapter.id]: genericAdapter,
+};
+
+// Own keys only, so ids like "constructor" don't resolve to Object.prototype members
+export function getAdapter(id) {
+  return Object.hasOwn(adapters, id) ? adapters[id] : undefined;
+}
+
+/**
+ * Resolve a source-native entity class to a visualizer kind. Keys ending in "_"
+ * match as prefixes (e.g. "npc_" covers "npc_combine_s").
+ */
+export function resolveEntityKind(adapter, nativeKind) {
+  if (typeof nativeKind !== "string") return "player";
+  if (Object.hasOwn(adapter.entityKinds, nativeKind)) return adapter.entityKinds[nativeKind];
+
+  for (const [key, kind] of Object.entries(adapter.entityKinds)) {
+    if (key.endsWith("_") && nativeKind.startsWith(key)) return kind;
+  }
+  return "player";
+}
+
+/** Decode a raw ingest body and tag every entity with its visualizer kind. */
+export function decodeWithAdapter(adapter, body) {
+  const result = adapter.decode(body);
+  result.packet?.players.forEach((p) => {
+    p.kind = resolveEntityKind(adapter, p.kind);
+  });
+  return result;
+}
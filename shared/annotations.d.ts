@@ -0,0 +1,23 @@
+// shared/annotations.d.ts – types for annotations.js
+
+export type AnnotationKind = "stroke" | "arrow" | "pin";
+export declare const ANNOTATION_KINDS: AnnotationKind[];
+export declare const DEFAULT_ANNOTATION_MS: number;
+export declare const MAX_ANNOTATIONS: number;
+export declare const MAX_STROKE_POINTS: number;
+export declare const MAX_PIN_TEXT: number;
+
+export type AnnotationPoint = [number, number, number];
+
+export interface Annotation {
+  id: string;
+  kind: AnnotationKind;
+  t: number;                      // ms from the start of the replay when it appears
+  duration: number;               // ms it stays up
+  color: number;                  // 0xRRGGBB
+  points: AnnotationPoint[];      // Map-local; a stroke's path, an arrow's tail and head, a pin's foot
+  text?: string;                  // Pins only
+}
+
+export declare function readAnnotation(value: unknown): Annotation | undefined;
+export declare function readAnnotations(value: unknown): Annotation[];
@@ -0,0 +1,51 @@
+// shared/annotations.js
+// Telestration drawn on a replay: strokes, arrows and text pins in map-local
+// coordinates, each shown from `t` (ms from the start of the replay) for `duration`
+// ms. Stored in the replay file's header (see replayFormat.js) and validated here
+// on both sides. Types live in annotations.d.ts; keep the two in sync.
+
+export const ANNOTATION_KINDS = ["stroke", "arrow", "pin"];
+export const DEFAULT_ANNOTATION_MS = 8000;
+export const MAX_ANNOTATIONS = 500;
+export const MAX_STROKE_POINTS = 1000;
+export const MAX_PIN_TEXT = 120;
+
+// How many points each kind needs
+const POINT_COUNTS = { stroke: [2, MAX_STROKE_POINTS], arrow: [2, 2], pin: [1, 1] };
+
+function isFiniteNumber(value) {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function readPoint(value) {
+  return Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber)
+    ? value.map((n) => Math.round(n * 100) / 100)
+    : undefined;
+}
+
+/** A valid annotation (rounded like replay frames), or undefined. */
+export function readAnnotation(value) {
+  if (typeof value !== "object" || value === null) return undefined;
+  if (typeof value.id !== "string" || !ANNOTATION_KINDS.includes(value.kind)) return undefined;
+  if (!isFiniteNumber(value.t) || value.t < 0) return undefined;
+  if (!isFiniteNumber(value.duration) || value.duration <= 0) return undefined;
+  if (!Number.isInteger(value.color) || value.color < 0 || value.color > 0xffffff) return undefined;
+
+  const [min, max] = POINT_COUNTS[value.kind];
+  if (!Array.isArray(value.points) || value.points.length < min || value.points.length > max) return undefined;
+  const points = value.points.map(readPoint);
+  if (points.includes(undefined)) return undefined;
+
+  const annotation = { id: value.id, kind: value.kind, t: Math.round(value.t), duration: Math.round(value.duration), color: value.color, points };
+  if (value.kind === "pin") {
+    if (typeof value.text !== "string") return undefined;
+    annotation.text = value.text.slice(0, MAX_PIN_TEXT);
+  }
+  return annotation;
+}
+
+/** The valid annotations of a list, at most MAX_ANNOTATIONS; anything else gives []. */
+export function readAnnotations(value) {
+  if (!Array.isArray(value)) return [];
+  return value.map(readAnnotation).filter(Boolean).slice(0, MAX_ANNOTATIONS);
+}
@@ -0,0 +1,43 @@
+// shared/replayFormat.d.ts – types for replayFormat.js
+import type { Annotation } from "./annotations.js";
+
+export declare const REPLAY_FORMAT: "flowz-replay";
+export declare const REPLAY_FORMAT_VERSION: 1;
+export declare const REPLAY_FILE_EXTENSION: ".flowz";
+
+export interface ReplayHeader {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number;              // ms since epoch of the first frame
+  session: string | null;         // Relay session the recording was made in
+  map: string | null;
+  adapter: string | null;
+  tickRate: number | null;
+  telemetryVersion: number | null;
+  frameCount: number;
+  duration: number;               // ms
+  playerCount: number;
+  annotations?: Annotation[];     // Telestration, absent until something is drawn
+}
+
+// Players are kept as recorded; run them through normalizePacket before use
+export interface RecordedFrame {
+  t: number;
+  players: unknown[];
+}
+
+export type ReplayMeta = Partial<Omit<ReplayHeader, "format" | "version" | "frameCount" | "duration" | "playerCount">> & {
+  id: string;
+};
+
+export declare class ReplayFormatError extends Error {
+  readonly line?: number;
+  constructor(message: string, line?: number);
+}
+
+export declare function describeFrames(frames: RecordedFrame[]): Pick<ReplayHeader, "frameCount" | "duration" | "playerCount">;
+export declare function encodeReplay(meta: ReplayMeta, frames: RecordedFrame[]): string;
+export declare function decodeReplayHeader(text: string): ReplayHeader;
+export declare function decodeReplay(text: string): { header: ReplayHeader; frames: RecordedFrame[] };
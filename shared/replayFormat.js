@@ -0,0 +1,182 @@
+// shared/replayFormat.js
+// Flowz replay files (*.flowz), written by the relay and readable by the client.
+// Types live in replayFormat.d.ts; keep the two in sync.
+//
+// A replay file is UTF-8 newline-delimited JSON:
+//
+//   line 1   header  { format: "flowz-replay", version: 1, id, name, createdAt, session, map,
+//                      adapter, tickRate, telemetryVersion, frameCount, duration, playerCount,
+//                      annotations? }
+//   line 2+  frame   { dt, set?, unset?, del? }
+//
+//   dt     ms since the previous frame (0 for the first one)
+//   set    players that appeared or changed: the full player the first time an id is
+//          seen, afterwards only { id, ...fields that changed }
+//   unset  fields a player no longer has, as [{ id, fields: [name, …] }]; a delta
+//          can't say that, so without it a dropped field (angles, team…) would linger
+//   del    ids of players that left since the previous frame
+//
+// Numbers are rounded to 2 decimals. Unchanged players are omitted from a frame,
+// so a quiet frame is just {"dt":100}. `annotations` (see annotations.js) is only
+// written once something was drawn; readers that predate it ignore the field.
+
+export const REPLAY_FORMAT = "flowz-replay";
+export const REPLAY_FORMAT_VERSION = 1;
+export const REPLAY_FILE_EXTENSION = ".flowz";
+
+export class ReplayFormatError extends Error {
+  constructor(message, line) {
+    super(line ? `line ${line}: ${message}` : message);
+    this.name = "ReplayFormatError";
+    this.line = line;
+  }
+}
+
+function round(value) {
+  if (typeof value === "number") return Math.round(value * 100) / 100;
+  if (value !== null && typeof value === "object") {
+    const out = {};
+    for (const [key, inner] of Object.entries(value)) out[key] = round(inner);
+    return out;
+  }
+  return value;
+}
+
+function sameValue(a, b) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Summary fields that go into the header, computed from the frames. */
+export function describeFrames(frames) {
+  const ids = new Set();
+  frames.forEach((frame) => frame.players.forEach((p) => ids.add(p.id ?? p.name)));
+  return {
+    frameCount: frames.length,
+    duration: frames.length > 1 ? frames[frames.length - 1].t - frames[0].t : 0,
+    playerCount: ids.size,
+  };
+}
+
+export function encodeReplay(meta, frames) {
+  const header = {
+    format: REPLAY_FORMAT,
+    version: REPLAY_FORMAT_VERSION,
+    id: meta.id,
+    name: meta.name ?? meta.id,
+    createdAt: meta.createdAt ?? frames[0]?.t ?? Date.now(),
+    session: meta.session ?? null,
+    map: meta.map ?? null,
+    adapter: meta.adapter ?? null,
+    tickRate: meta.tickRate ?? null,
+    telemetryVersion: meta.telemetryVersion ?? null,
+    ...describeFrames(frames),
+  };
+  if (meta.annotations?.length) header.annotations = meta.annotations;
+
+  const lines = [JSON.stringify(header)];
+  let previous = new Map();
+  let lastT = frames[0]?.t ?? 0;
+
+  for (const frame of frames) {
+    const current = new Map();
+    const set = [];
+    const unset = [];
+
+    for (const raw of frame.players) {
+      const { t: _relayTime, ...player } = round(raw);
+      const id = player.id ?? player.name;
+      current.set(id, player);
+
+      const before = previous.get(id);
+      if (!before) {
+        set.push(player);
+        continue;
+      }
+
+      const delta = { id };
+      let changed = false;
+      for (const [key, value] of Object.entries(player)) {
+        if (key !== "id" && !sameValue(value, before[key])) {
+          delta[key] = value;
+          changed = true;
+        }
+      }
+      if (changed) set.push(delta);
+
+      const fields = Object.keys(before).filter((key) => !Object.hasOwn(player, key));
+      if (fields.length) unset.push({ id, fields });
+    }
+
+    const del = [...previous.keys()].filter((id) => !current.has(id));
+    const line = { dt: frame.t - lastT };
+    if (set.length) line.set = set;
+    if (unset.length) line.unset = unset;
+    if (del.length) line.del = del;
+    lines.push(JSON.stringify(line));
+
+    previous = current;
+    lastT = frame.t;
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export function decodeReplayHeader(text) {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  let header;
+  try {
+    header = JSON.parse(firstLine);
+  } catch {
+    throw new ReplayFormatError("header is not valid JSON", 1);
+  }
+  if (header?.format !== REPLAY_FORMAT) {
+    throw new ReplayFormatError(`not a ${REPLAY_FORMAT} file`, 1);
+  }
+  if (header.version > REPLAY_FORMAT_VERSION) {
+    throw new ReplayFormatError(`format version ${header.version} is newer than this build reads (${REPLAY_FORMAT_VERSION})`, 1);
+  }
+  return header;
+}
+
+export function decodeReplay(text) {
+  const header = decodeReplayHeader(text);
+  const lines = text.split("\n");
+  const frames = [];
+  const state = new Map();
+  let t = header.createdAt;
+
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+
+    let line;
+    try {
+      line = JSON.parse(lines[i]);
+    } catch {
+      throw new ReplayFormatError("frame is not valid JSON", i + 1);
+    }
+    if (typeof line?.dt !== "number") {
+      throw new ReplayFormatError("frame is missing dt", i + 1);
+    }
+    if (line.set !== undefined && !Array.isArray(line.set)) throw new ReplayFormatError("set is not a list", i + 1);
+    if (line.unset !== undefined && !Array.isArray(line.unset)) throw new ReplayFormatError("unset is not a list", i + 1);
+    if (line.del !== undefined && !Array.isArray(line.del)) throw new ReplayFormatError("del is not a list", i + 1);
+
+    t += line.dt;
+    (line.del ?? []).forEach((id) => state.delete(id));
+    for (const entry of line.unset ?? []) {
+      if (!Array.isArray(entry?.fields)) throw new ReplayFormatError("unset entry without fields", i + 1);
+      const player = state.get(entry.id);
+      if (player) entry.fields.forEach((field) => delete player[field]);
+    }
+    for (const delta of line.set ?? []) {
+      if (delta === null || typeof delta !== "object") throw new ReplayFormatError("player is not an object", i + 1);
+      const id = delta.id ?? delta.name;
+      if (id === undefined) throw new ReplayFormatError("player without id", i + 1);
+      state.set(id, { ...state.get(id), ...delta });
+    }
+
+    frames.push({ t, players: [...state.values()].map((p) => ({ ...p })) });
+  }
+
+  return { header, frames };
+}
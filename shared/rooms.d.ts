@@ -0,0 +1,52 @@
+// shared/rooms.d.ts – types for rooms.js
+
+export declare const ROOM_PATH: "/rooms";
+export declare const ROOM_ID: RegExp;
+export declare const MAX_NAME_LENGTH: number;
+export declare const PARTICIPANT_COLORS: number[];
+
+export type Vec3Tuple = [number, number, number];
+
+export interface RoomReplayState {
+  id: string;                     // Relay replay id
+  time: number;                   // ms from the start of the replay when the view was sent
+  speed: number;
+  playing: boolean;
+}
+
+/** What the host shares; followers copy it. */
+export interface ViewState {
+  map: string;                    // Map registry id
+  session: string;                // Relay session being watched
+  position: Vec3Tuple;            // Map hologram pose, world space
+  quaternion: [number, number, number, number];
+  scale: number;
+  camera: { mode: string; target: string | null };   // Spectator mode and followed player id
+  replay: RoomReplayState | null; // null while watching live
+}
+
+export interface RoomParticipant {
+  id: string;
+  name: string;
+  color: number;
+}
+
+// ---------- Client -> relay ----------
+
+export type RoomClientMessage =
+  | { type: "view"; view: ViewState }                       // Ignored unless sent by the host
+  | { type: "pointer"; map: string; point: Vec3Tuple | null }
+  | { type: "claimHost" };
+
+// ---------- Relay -> client ----------
+
+export type RoomServerMessage =
+  | { type: "welcome"; room: string; id: string; host: string; participants: RoomParticipant[]; view: ViewState | null }
+  | { type: "joined"; participant: RoomParticipant }
+  | { type: "left"; id: string }
+  | { type: "host"; id: string }
+  | { type: "view"; view: ViewState }
+  | { type: "pointer"; id: string; map: string; point: Vec3Tuple | null };
+
+export declare function readViewState(value: unknown): ViewState | undefined;
+export declare function readPoint(value: unknown): Vec3Tuple | null | undefined;
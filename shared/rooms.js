@@ -0,0 +1,58 @@
+// shared/rooms.js
+// Spectating rooms: viewers join /rooms?room=<id>&name=<name> on the relay, the
+// host's view is passed on to everyone else, and every participant's pointer hit
+// on the map is shared. Used by server/rooms.js and src/rooms. Message types live
+// in rooms.d.ts; keep the two in sync.
+
+export const ROOM_PATH = "/rooms";
+export const ROOM_ID = /^[\w.-]{1,64}$/;
+export const MAX_NAME_LENGTH = 32;
+
+// Pointer marker colours, handed out in join order
+export const PARTICIPANT_COLORS = [0xf97316, 0x22d3ee, 0xa3e635, 0xe879f9, 0xfacc15, 0x60a5fa, 0xf87171, 0x34d399];
+
+function isFiniteNumber(value) {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function readNumbers(value, length) {
+  return Array.isArray(value) && value.length === length && value.every(isFiniteNumber) ? [...value] : undefined;
+}
+
+function readReplay(value) {
+  if (value === null) return null;
+  if (typeof value !== "object" || typeof value.id !== "string") return undefined;
+  if (!isFiniteNumber(value.time) || !isFiniteNumber(value.speed) || typeof value.playing !== "boolean") return undefined;
+  return { id: value.id, time: value.time, speed: value.speed, playing: value.playing };
+}
+
+/** The view state a host sent, or undefined when any part of it is malformed. */
+export function readViewState(value) {
+  if (typeof value !== "object" || value === null) return undefined;
+  if (typeof value.map !== "string" || typeof value.session !== "string") return undefined;
+
+  const position = readNumbers(value.position, 3);
+  const quaternion = readNumbers(value.quaternion, 4);
+  if (!position || !quaternion || !isFiniteNumber(value.scale) || value.scale <= 0) return undefined;
+
+  const camera = value.camera;
+  if (typeof camera?.mode !== "string" || (camera.target !== null && typeof camera.target !== "string")) return undefined;
+
+  const replay = readReplay(value.replay);
+  if (replay === undefined) return undefined;
+
+  return {
+    map: value.map,
+    session: value.session,
+    position,
+    quaternion,
+    scale: value.scale,
+    camera: { mode: camera.mode, target: camera.target },
+    replay,
+  };
+}
+
+/** A map-local pointer hit, null when the pointer left the map, undefined when malformed. */
+export function readPoint(value) {
+  return value === null ? null : readNumbers(value, 3);
+}
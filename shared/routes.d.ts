@@ -0,0 +1,127 @@
+// shared/routes.d.ts – types for routes.js
+import type { ReplayHeader } from "./replayFormat.js";
+import type { Annotation } from "./annotations.js";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface RouteDefinition {
+  method: HttpMethod;
+  path: string;                   // Express-style, e.g. "/replays/:id"
+}
+
+export declare const ROUTES: {
+  ingest: RouteDefinition;
+  data: RouteDefinition;
+  adapters: RouteDefinition;
+  sessions: RouteDefinition;
+  recordStart: RouteDefinition;
+  recordStop: RouteDefinition;
+  recordStatus: RouteDefinition;
+  recordClip: RouteDefinition;
+  recordSchedules: RouteDefinition;
+  recordSchedule: RouteDefinition;
+  recordTriggers: RouteDefinition;
+  recordTrigger: RouteDefinition;
+  replays: RouteDefinition;
+  replayImport: RouteDefinition;
+  replay: RouteDefinition;
+  replayDownload: RouteDefinition;
+  replayRename: RouteDefinition;
+  replayAnnotations: RouteDefinition;
+  replayAnnotationsSave: RouteDefinition;
+  replayDelete: RouteDefinition;
+};
+
+export declare function routePath(route: RouteDefinition, params?: Record<string, string>): string;
+
+// ---------- Response bodies ----------
+
+export interface ReplaySummary {
+  id: string;
+  name: string;
+  session: string | null;
+  timestamp: number;              // ms since epoch of the first frame
+  frameCount: number;
+  duration: number;               // ms
+  playerCount: number;
+  map: string | null;
+  adapter: string | null;
+}
+
+export interface SessionSummary {
+  id: string;
+  adapter: string;
+  playerCount: number;
+  isRecording: boolean;
+  lastSeen: number;               // ms since epoch of the last ingest
+}
+
+export interface RecordingStarted {
+  status: "recording_started";
+  session: string;
+}
+
+export interface RecordingStopped {
+  status: "recording_stopped";
+  session: string;
+  id: string | null;              // null when no frames arrived while recording
+}
+
+export interface RecordingClipped {
+  status: "clipped";
+  session: string;
+  id: string;
+  frameCount: number;
+}
+
+export interface RecordingSchedule {
+  id: string;
+  startAt: number;                // ms since epoch
+  duration: number;               // ms
+  map: string | null;
+}
+
+export interface RecordingTrigger {
+  id: string;
+  minPlayers: number;             // Starts recording at this many active players
+  duration: number | null;        // ms; null records until the count drops below minPlayers
+  preRoll: number;                // ms of the rolling buffer kept from before the trigger
+  cooldown: number;               // ms before the trigger may fire again
+  map: string | null;
+}
+
+export interface RecordingStatus {
+  session: string;
+  isRecording: boolean;
+  startedAt: number | null;       // ms since epoch, null when not recording
+  stopsAt: number | null;         // ms since epoch for timed recordings
+  reason: string | null;          // "manual", "scheduled", "trigger: ..."
+  elapsed: number;                // ms recorded so far
+  frameCount: number;
+  bufferedMs: number;             // How far back a clip can currently reach
+  schedules: RecordingSchedule[];
+  triggers: RecordingTrigger[];
+}
+
+export interface ReplayImported {
+  status: "imported";
+  id: string;
+}
+
+export interface ReplayAnnotations {
+  id: string;
+  annotations: Annotation[];
+}
+
+export interface ReplayDeleted {
+  status: "deleted";
+  id: string;
+}
+
+/** Body of every non-2xx response. */
+export interface RelayErrorBody {
+  error: string;
+  issues?: { path: string; message: string }[];
+}
+
+export declare function toReplaySummary(header: ReplayHeader): ReplaySummary;
@@ -0,0 +1,50 @@
+// shared/routes.js
+// Relay HTTP routes, used by server/server.js to mount handlers and by
+// src/replayApi.ts to call them. Types, including the response bodies, live
+// in routes.d.ts; keep the two in sync.
+
+export const ROUTES = {
+  ingest:         { method: "POST",   path: "/ingest/:adapter" },
+  data:           { method: "GET",    path: "/data" },
+  adapters:       { method: "GET",    path: "/adapters" },
+  sessions:       { method: "GET",    path: "/sessions" },
+  recordStart:    { method: "POST",   path: "/record/start" },
+  recordStop:     { method: "POST",   path: "/record/stop" },
+  recordStatus:   { method: "GET",    path: "/record/status" },
+  recordClip:     { method: "POST",   path: "/record/clip" },
+  recordSchedules:{ method: "POST",   path: "/record/schedules" },
+  recordSchedule: { method: "DELETE", path: "/record/schedules/:id" },
+  recordTriggers: { method: "POST",   path: "/record/triggers" },
+  recordTrigger:  { method: "DELETE", path: "/record/triggers/:id" },
+  replays:        { method: "GET",    path: "/replays" },
+  replayImport:   { method: "POST",   path: "/replays/import" },
+  replay:         { method: "GET",    path: "/replays/:id" },
+  replayDownload: { method: "GET",    path: "/replays/:id/download" },
+  replayRename:   { method: "PATCH",  path: "/replays/:id" },
+  replayAnnotations:    { method: "GET", path: "/replays/:id/annotations" },
+  replayAnnotationsSave:{ method: "PUT", path: "/replays/:id/annotations" },
+  replayDelete:   { method: "DELETE", path: "/replays/:id" },
+};
+
+/** Fill a route's :params, e.g. routePath(ROUTES.replay, { id }) → "/replays/replay_1". */
+export function routePath(route, params = {}) {
+  return route.path.replace(/:(\w+)/g, (_, name) => {
+    if (params[name] === undefined) throw new Error(`Missing route parameter "${name}" for ${route.path}`);
+    return encodeURIComponent(params[name]);
+  });
+}
+
+/** The list entry the relay sends for a stored replay (header fields, no frames). */
+export function toReplaySummary(header) {
+  return {
+    id: header.id,
+    name: header.name,
+    session: header.session ?? null,
+    timestamp: header.createdAt,
+    frameCount: header.frameCount,
+    duration: header.duration,
+    playerCount: header.playerCount,
+    map: header.map,
+    adapter: header.adapter,
+  };
+}
@@ -0,0 +1,64 @@
+// shared/telemetry.d.ts – types for telemetry.js
+
+export declare const TELEMETRY_VERSION: 2;
+
+export type EntityKind = "player" | "npc" | "objective";
+export declare const ENTITY_KINDS: EntityKind[];
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Source engine eye angles in degrees (EyeAngles() on the GMod side)
+export interface TelemetryAngles {
+  pitch: number;
+  yaw: number;
+  roll: number;
+}
+
+export type TelemetryTag = string | number | boolean;
+
+export interface TelemetryPlayer {
+  id: string;                     // Stable id: steamID64 for GMod, else the name
+  name: string;
+  position: Vec3;                 // Game units
+  velocity: Vec3;                 // Game units per second
+  angles?: TelemetryAngles;
+  t?: number;                     // Relay receive time (ms since epoch), set by the server
+  kind?: EntityKind;              // Resolved by the ingest adapter; absent means "player"
+  team?: string;                  // Team name, matched against the visualizer's teamColors
+  role?: string;                  // Game-specific (class, TTT role…)
+  health?: number;
+  alive?: boolean;                // Absent means alive
+  tags?: Record<string, TelemetryTag>;  // Arbitrary metadata, e.g. for the 'field' colour scheme
+}
+
+export interface TelemetryPacket {
+  v: typeof TELEMETRY_VERSION;
+  players: TelemetryPlayer[];
+}
+
+export interface TelemetryIssue {
+  path: string;                   // e.g. "players[2].position"
+  message: string;
+}
+
+export interface NormalizeResult {
+  packet?: TelemetryPacket;       // Undefined when nothing usable could be read
+  sourceVersion?: number;         // Version detected before upgrading
+  errors: TelemetryIssue[];       // Players (or the whole packet) that were dropped
+  warnings: TelemetryIssue[];     // Fields that were repaired or ignored
+}
+
+export declare function normalizePlayer(
+  raw: unknown,
+  path?: string,
+  errors?: TelemetryIssue[],
+  warnings?: TelemetryIssue[]
+): TelemetryPlayer | undefined;
+
+export declare function normalizePacket(input: unknown): NormalizeResult;
+
+export declare function formatIssues(issues: TelemetryIssue[]): string;
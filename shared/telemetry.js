@@ -0,0 +1,192 @@
+// shared/telemetry.js
+// Telemetry schema shared by the relay (server/) and the web client (src/).
+// Types live in telemetry.d.ts; keep the two in sync.
+//
+// Version history
+//   0  Single player body straight from Flows_ClientTracker.lua:
+//        { steamID, name, position{x,y,z}, velocity{x,y,z}, vel_len, vel_dir, angles{pitch,yaw,roll} }
+//   1  { players: [...] } where each player is flat { name, x, y, z, velocity }
+//        and velocity may be an object or a "[x y z]" string (GMod Vector tostring)
+//   2  { v: 2, players: [{ id, name, position, velocity, angles?, kind?,
+//        team?, role?, health?, alive?, tags? }] }  ← current
+
+export const TELEMETRY_VERSION = 2;
+
+export const ENTITY_KINDS = ["player", "npc", "objective"];
+
+const VECTOR_STRING = /^\[?\s*(-?[\d.eE+-]+)\s+(-?[\d.eE+-]+)\s+(-?[\d.eE+-]+)\s*\]?$/;
+
+function isFiniteNumber(value) {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isObject(value) {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function readVec3(value, path, issues) {
+  if (typeof value === "string") {
+    const match = value.match(VECTOR_STRING);
+    if (match) return { x: +match[1], y: +match[2], z: +match[3] };
+    issues.push({ path, message: `expected "[x y z]", got "${value}"` });
+    return undefined;
+  }
+  if (isObject(value) && [value.x, value.y, value.z].every(isFiniteNumber)) {
+    return { x: value.x, y: value.y, z: value.z };
+  }
+  issues.push({ path, message: "expected { x, y, z } with finite numbers" });
+  return undefined;
+}
+
+function readAngles(value, path, issues) {
+  if (isObject(value) && [value.pitch, value.yaw, value.roll].every(isFiniteNumber)) {
+    return { pitch: value.pitch, yaw: value.yaw, roll: value.roll };
+  }
+  issues.push({ path, message: "expected { pitch, yaw, roll } with finite numbers; ignored" });
+  return undefined;
+}
+
+// Free-form key/value metadata; only string, number and boolean values are kept
+function readTags(value, path, issues) {
+  if (!isObject(value)) {
+    issues.push({ path, message: "expected an object of key/value pairs; ignored" });
+    return undefined;
+  }
+  const tags = {};
+  for (const [key, tag] of Object.entries(value)) {
+    if (typeof tag === "string" || typeof tag === "boolean" || isFiniteNumber(tag)) tags[key] = tag;
+    else issues.push({ path: `${path}.${key}`, message: "expected a string, number or boolean; ignored" });
+  }
+  return Object.keys(tags).length ? tags : undefined;
+}
+
+/**
+ * Validate one player of any known version and upgrade it to the current shape.
+ * Returns undefined (and records an error) when the player can't be used.
+ */
+export function normalizePlayer(raw, path = "player", errors = [], warnings = []) {
+  if (!isObject(raw)) {
+    errors.push({ path, message: "expected an object" });
+    return undefined;
+  }
+
+  if (typeof raw.name !== "string" || raw.name.length === 0) {
+    errors.push({ path: `${path}.name`, message: "missing player name" });
+    return undefined;
+  }
+
+  // v0/v2 nest the position; v1 sends flat x/y/z
+  const flat = raw.position === undefined && "x" in raw;
+  const position = readVec3(flat ? { x: raw.x, y: raw.y, z: raw.z } : raw.position, `${path}.position`, errors);
+  if (!position) return undefined;
+
+  let velocity = { x: 0, y: 0, z: 0 };
+  if (raw.velocity !== undefined) {
+    velocity = readVec3(raw.velocity, `${path}.velocity`, warnings) ?? velocity;
+  }
+
+  const player = {
+    id: String(raw.id ?? raw.steamID ?? raw.name),
+    name: raw.name,
+    position,
+    velocity,
+  };
+
+  if (raw.angles !== undefined) {
+    const angles = readAngles(raw.angles, `${path}.angles`, warnings);
+    if (angles) player.angles = angles;
+  }
+  if (isFiniteNumber(raw.t)) player.t = raw.t;
+  if (typeof raw.team === "string" && raw.team.length > 0) player.team = raw.team;
+  if (typeof raw.role === "string" && raw.role.length > 0) player.role = raw.role;
+  if (raw.health !== undefined) {
+    if (isFiniteNumber(raw.health)) player.health = raw.health;
+    else warnings.push({ path: `${path}.health`, message: "expected a finite number; ignored" });
+  }
+  if (raw.alive !== undefined) {
+    if (typeof raw.alive === "boolean") player.alive = raw.alive;
+    else warnings.push({ path: `${path}.alive`, message: "expected a boolean; ignored" });
+  }
+  if (raw.tags !== undefined) {
+    const tags = readTags(raw.tags, `${path}.tags`, warnings);
+    if (tags) player.tags = tags;
+  }
+
+  // Native class name until an adapter resolves it (see adapters/index.js)
+  const kind = raw.kind ?? raw.class;
+  if (typeof kind === "string") player.kind = kind;
+
+  return player;
+}
+
+/**
+ * Validate a packet of any known version and upgrade it to the current one.
+ * Accepts the parsed object or the raw JSON string.
+ */
+export function normalizePacket(input) {
+  const errors = [];
+  const warnings = [];
+
+  let body = input;
+  if (typeof input === "string") {
+    try {
+      body = JSON.parse(input);
+    } catch (e) {
+      errors.push({ path: "", message: `invalid JSON: ${e.message}` });
+      return { errors, warnings };
+    }
+  }
+
+  if (!isObject(body)) {
+    errors.push({ path: "", message: "expected a JSON object" });
+    return { errors, warnings };
+  }
+
+  let sourceVersion;
+  let rawPlayers;
+
+  if (body.v !== undefined) {
+    if (!Number.isInteger(body.v) || body.v < 1 || body.v > TELEMETRY_VERSION) {
+      errors.push({ path: "v", message: `unsupported telemetry version ${body.v} (this build reads up to ${TELEMETRY_VERSION})` });
+      return { errors, warnings };
+    }
+    sourceVersion = body.v;
+    rawPlayers = body.players;
+  } else if (Array.isArray(body.players)) {
+    sourceVersion = 1;
+    rawPlayers = body.players;
+  } else if (body.name !== undefined) {
+    sourceVersion = 0;
+    rawPlayers = [body];
+  } else {
+    errors.push({ path: "", message: "no players[] and not a single-player body" });
+    return { errors, warnings };
+  }
+
+  if (!Array.isArray(rawPlayers)) {
+    errors.push({ path: "players", message: "expected an array" });
+    return { sourceVersion, errors, warnings };
+  }
+
+  const players = [];
+  rawPlayers.forEach((raw, i) => {
+    const player = normalizePlayer(raw, `players[${i}]`, errors, warnings);
+    if (player) players.push(player);
+  });
+
+  // Only a packet where every player was rejected counts as malformed
+  if (players.length === 0 && rawPlayers.length > 0) {
+    return { sourceVersion, errors, warnings };
+  }
+
+  return {
+    packet: { v: TELEMETRY_VERSION, players },
+    sourceVersion,
+    errors,
+    warnings,
+  };
+}
+
+export function formatIssues(issues) {
+  return issues.map(({ path, message }) => (path ? `${path}: ${message}` : message)).join("; ");
+}
@@ -7,10 +7,72 @@ import {
   UIKit,
 } from "@iwsdk/core";
 
-import {
-  startReplayRecording,
-  stopReplayRecording
-} from "./replayApi";
+import { RecordingStatus, ReplayApi, ReplayApiError, ReplaySummary } from "./replayApi";
+import type { MapManager } from "./maps/mapManager";
+import type { PlayerVisualizer } from "./Visualizer/PlayerVisualizer";
+import type { ConnectionState } from "./Visualizer/types";
+import type { HeatmapFilter } from "./Visualizer/heatmapRenderer";
+import type { SpectatorMode, SpectatorSystem } from "./spectator";
+import type { MapViewSystem } from "./mapView";
+import type { RoomSystem } from "./rooms/RoomSystem";
+import type { DrawTool, TelestrationSystem } from "./annotations/TelestrationSystem";
+import type { TabletopSystem } from "./tabletop/TabletopSystem";
+
+const SEEK_STEP_MS = 5000;
+const TOAST_MS = 4000;
+const STATUS_POLL_MS = 1000;
+const CONFIRM_DELETE_MS = 3000;
+const CLIP_SECONDS = 120;
+const REPLAY_SLOTS = 8;            // Rows in ui/replay.uikitml (#replay-row-0 …)
+
+// Trailing windows and speed bands (game units/s) the heatmap buttons cycle through
+interface HeatmapOption {
+  label: string;
+  filter: HeatmapFilter;          // Lists every key the option controls, undefined to clear it
+}
+
+const HEATMAP_WINDOWS: HeatmapOption[] = [
+  { label: "All", filter: { window: undefined } },
+  { label: "30s", filter: { window: 30_000 } },
+  { label: "2m", filter: { window: 120_000 } },
+  { label: "10m", filter: { window: 600_000 } },
+];
+const HEATMAP_SPEEDS: HeatmapOption[] = [
+  { label: "Any", filter: { minSpeed: undefined, maxSpeed: undefined } },
+  { label: "Still", filter: { minSpeed: undefined, maxSpeed: 20 } },
+  { label: "Walking", filter: { minSpeed: 20, maxSpeed: 250 } },
+  { label: "Running", filter: { minSpeed: 250, maxSpeed: undefined } },
+];
+
+const CAMERA_LABELS: Record<SpectatorMode, string> = {
+  free: "Free",
+  follow: "Follow",
+  pov: "First person",
+  orbit: "Orbit",
+};
+
+const DRAW_LABELS: Record<DrawTool, string> = {
+  off: "Off",
+  stroke: "Pen",
+  arrow: "Arrow",
+  pin: "Pin",
+};
+
+const CONNECTION_LABELS: Record<ConnectionState, string> = {
+  websocket: "Live · WebSocket",
+  polling: "Live · HTTP polling",
+  offline: "Live · Relay offline",
+  mock: "Live · Mock data",
+};
+
+function formatTime(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function formatDate(ms: number): string {
+  return new Date(ms).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
 
 export class ReplayPanelSystem extends createSystem({
   replayPanel: {
@@ -18,23 +80,485 @@ export class ReplayPanelSystem extends createSystem({
     where: [eq(PanelUI, "config", "/ui/replay.json")],
   },
 }) {
+  private document?: UIKitDocument;
+  private lastRefreshKey = "";
+  private toast?: { text: string; error: boolean; until: number };
+
+  // Recording indicator, polled from the relay and ticked locally in between
+  private recording?: RecordingStatus & { fetchedAt: number };
+  private lastStatusPoll = 0;
+  private statusInFlight = false;
+  private unauthorized = false;     // The relay turned down our token (or lack of one)
+
+  // Saved replays of the watched session, newest first
+  private replays: ReplaySummary[] = [];
+  private replaysSession?: string;
+  private page = 0;
+  private loadedId?: string;
+  private pendingDelete?: { id: string; until: number };
+
+  // index.ts publishes the active visualizer here whenever the map changes
+  private get visualizer(): PlayerVisualizer | undefined {
+    return this.globals.visualizer;
+  }
+
+  private get mapManager(): MapManager | undefined {
+    return this.globals.mapManager;
+  }
+
+  private get api(): ReplayApi | undefined {
+    return this.globals.replayApi;
+  }
+
+  private get spectator(): SpectatorSystem | undefined {
+    return this.globals.spectator;
+  }
+
+  private get mapView(): MapViewSystem | undefined {
+    return this.globals.mapView;
+  }
+
+  private get telestration(): TelestrationSystem | undefined {
+    return this.globals.telestration;
+  }
+
+  private get room(): RoomSystem | undefined {
+    return this.globals.room;
+  }
+
+  private get tabletop(): TabletopSystem | undefined {
+    return this.globals.tabletop;
+  }
+
+  /** Relay id of the replay playing, if it was loaded from the relay rather than dropped in. */
+  get loadedReplayId(): string | undefined {
+    return this.visualizer?.replayPlayer ? this.loadedId : undefined;
+  }
+
   init() {
+    this.globals.replayPanel = this;
+
     this.queries.replayPanel.subscribe("qualify", (entity) => {
       const document = PanelDocument.data.document[entity.index] as UIKitDocument;
       if (!document) return;
+      this.document = document;
+
+      const button = (id: string) => document.getElementById(id) as UIKit.Text;
+
+      button("start-recording")?.addEventListener("click", () => this.run("Start recording", async (api, session) => {
+        await api.startRecording(session, this.mapManager?.current?.config.id);
+        this.lastStatusPoll = 0;
+        this.showToast(`Recording ${session}`);
+      }));
+
+      button("stop-recording")?.addEventListener("click", () => this.run("Stop recording", async (api, session) => {
+        const { id } = await api.stopRecording(session);
+        this.recording = undefined;
+        this.showToast(id ? `Saved ${id}` : "Nothing recorded");
+        await this.reloadReplays(api, session);
+      }));
+
+      // Saves what the relay has buffered, whether or not anyone pressed Start
+      button("clip-recording")?.addEventListener("click", () => this.run("Clip", async (api, session) => {
+        const { id, frameCount } = await api.clip(session, CLIP_SECONDS, this.mapManager?.current?.config.id);
+        this.showToast(`Saved ${id} (${frameCount} frames)`);
+        await this.reloadReplays(api, session);
+      }));
+
+      button("session-picker")?.addEventListener("click", () => this.run("List sessions", api => this.nextSession(api)));
+      button("refresh-replays")?.addEventListener("click", () => this.run("Refresh", (api, session) => this.reloadReplays(api, session)));
+
+      button("page-newer")?.addEventListener("click", () => this.turnPage(-1));
+      button("page-older")?.addEventListener("click", () => this.turnPage(1));
+
+      for (let slot = 0; slot < REPLAY_SLOTS; slot++) {
+        button(`replay-load-${slot}`)?.addEventListener("click", () => {
+          const replay = this.replayInSlot(slot);
+          if (replay) this.playReplayById(replay.id);
+        });
+        button(`replay-delete-${slot}`)?.addEventListener("click", () => {
+          const replay = this.replayInSlot(slot);
+          if (replay) this.run("Delete replay", api => this.deleteReplay(api, replay));
+        });
+      }
+
+      button("heatmap-toggle")?.addEventListener("click", () => {
+        const heatmap = this.visualizer?.heatmap;
+        if (heatmap) heatmap.visible = !heatmap.visible;
+        this.refreshControls();
+      });
+      button("heatmap-window")?.addEventListener("click", () => this.cycleHeatmapOption(HEATMAP_WINDOWS));
+      button("heatmap-speed")?.addEventListener("click", () => this.cycleHeatmapOption(HEATMAP_SPEEDS));
+      button("heatmap-player")?.addEventListener("click", () => this.cycleHeatmapPlayer());
+
+      button("camera-mode")?.addEventListener("click", () => {
+        this.spectator?.cycleMode();
+        this.refreshControls();
+      });
+      button("camera-prev")?.addEventListener("click", () => {
+        this.spectator?.cycleTarget(-1);
+        this.refreshControls();
+      });
+      button("camera-next")?.addEventListener("click", () => {
+        this.spectator?.cycleTarget(1);
+        this.refreshControls();
+      });
+
+      button("map-spin")?.addEventListener("click", () => {
+        this.mapView?.toggleSpin();
+        this.refreshControls();
+      });
+      button("map-reset")?.addEventListener("click", () => this.mapView?.resetView());
 
-      const startBtn = document.getElementById("start-recording") as UIKit.Text;
-      const stopBtn = document.getElementById("stop-recording") as UIKit.Text;
+      button("draw-tool")?.addEventListener("click", () => {
+        this.telestration?.cycleTool();
+        this.refreshControls();
+      });
+      button("draw-color")?.addEventListener("click", () => {
+        this.telestration?.cycleColor();
+        this.refreshControls();
+      });
+      button("draw-undo")?.addEventListener("click", () => this.telestration?.undo());
+      button("draw-clear")?.addEventListener("click", () => this.telestration?.clear());
+
+      button("room-host")?.addEventListener("click", () => this.room?.claimHost());
+
+      button("place-map")?.addEventListener("click", () => {
+        this.tabletop?.startPlacing();
+        this.refreshControls();
+      });
+
+      button("exit-replay")?.addEventListener("click", () => this.exitReplay());
+
+      button("play-pause")?.addEventListener("click", () => {
+        this.visualizer?.replayPlayer?.togglePlay();
+        this.refreshControls();
+      });
 
-      startBtn?.addEventListener("click", async () => {
-        console.log("[Replay] Start recording");
-        await startReplayRecording();
+      button("seek-back")?.addEventListener("click", () => this.seekBy(-SEEK_STEP_MS));
+      button("seek-forward")?.addEventListener("click", () => this.seekBy(SEEK_STEP_MS));
+
+      button("speed-down")?.addEventListener("click", () => this.scaleSpeed(0.5));
+      button("speed-up")?.addEventListener("click", () => this.scaleSpeed(2));
+
+      button("loop-toggle")?.addEventListener("click", () => {
+        const replay = this.visualizer?.replayPlayer;
+        replay?.setLoop(!replay.isLooping);
+        this.refreshControls();
       });
 
-      stopBtn?.addEventListener("click", async () => {
-        console.log("[Replay] Stop recording");
-        await stopReplayRecording();
+      // Clicking anywhere on the track jumps to that point of the replay
+      button("scrubber-track")?.addEventListener("click", (e: { uv?: { x: number } }) => {
+        const replay = this.visualizer?.replayPlayer;
+        if (!replay || !e.uv) return;
+        this.visualizer!.seekReplay(e.uv.x * replay.duration);
+        this.refreshControls();
       });
+
+      this.refreshControls();
+    });
+  }
+
+  update() {
+    const api = this.api;
+    const session = this.visualizer?.session;
+
+    if (this.document && api && session) {
+      if (session !== this.replaysSession) {
+        this.replaysSession = session;
+        this.replays = [];
+        this.run("Load replay list", () => this.reloadReplays(api, session));
+      }
+      if (!this.statusInFlight && performance.now() - this.lastStatusPoll > STATUS_POLL_MS) {
+        this.pollRecordingStatus(api, session);
+      }
+    }
+
+    // The playhead, connection, recording clock and toasts change on their own; the rest refreshes on click
+    if (this.refreshKey() !== this.lastRefreshKey) this.refreshControls();
+  }
+
+  private refreshKey(): string {
+    return [
+      this.statusKey(),
+      this.visualizer?.session,
+      this.activeToast()?.text,
+      this.recordingLabel(),
+      this.pendingDeleteId(),
+      this.heatmapKey(),
+      this.spectator?.mode,
+      this.spectator?.targetName,
+      this.mapView?.isSpinning,
+      this.room?.isActive && this.room.status,
+      this.telestration?.tool,
+      this.telestration?.color,
+      this.telestration?.count,
+      this.tabletop?.isActive,
+      this.tabletop?.isPlacing,
+    ].join("|");
+  }
+
+  private statusKey(): string {
+    const visualizer = this.visualizer;
+    const replay = visualizer?.replayPlayer;
+    return replay
+      ? `${formatTime(replay.currentTime)} / ${formatTime(replay.duration)}`
+      : visualizer?.connectionState ?? "";
+  }
+
+  private activeToast() {
+    return this.toast && performance.now() < this.toast.until ? this.toast : undefined;
+  }
+
+  private showToast(text: string, error = false) {
+    this.toast = { text, error, until: performance.now() + TOAST_MS };
+    this.refreshControls();
+  }
+
+  // Runs a relay call from a button and toasts any failure
+  private async run(action: string, call: (api: ReplayApi, session: string) => Promise<void>) {
+    const api = this.api;
+    const session = this.visualizer?.session;
+    if (!api || !session) return;
+
+    try {
+      await call(api, session);
+    } catch (e) {
+      console.warn(`[Replay] ${action} failed`, e);
+      this.showToast(`${action} failed: ${e instanceof ReplayApiError ? e.message : String(e)}`, true);
+    }
+  }
+
+  private async pollRecordingStatus(api: ReplayApi, session: string) {
+    this.statusInFlight = true;
+    this.lastStatusPoll = performance.now();
+    try {
+      const status = await api.recordingStatus(session);
+      this.recording = { ...status, fetchedAt: performance.now() };
+      this.unauthorized = false;
+    } catch (e) {
+      // The status line already shows when the relay is offline; don't toast every second
+      this.recording = undefined;
+      const unauthorized = e instanceof ReplayApiError && e.status === 401;
+      if (unauthorized && !this.unauthorized) this.showToast("Relay token missing or rejected · reload on desktop to enter one", true);
+      this.unauthorized = unauthorized;
+    } finally {
+      this.statusInFlight = false;
+    }
+  }
+
+  private recordingLabel(): string {
+    const recording = this.recording;
+    if (this.unauthorized) return "No relay access";
+    if (!recording?.isRecording) return "Not recording";
+    const elapsed = recording.elapsed + performance.now() - recording.fetchedAt;
+    const clock = recording.stopsAt
+      ? `${formatTime(elapsed)} / ${formatTime(recording.stopsAt - recording.startedAt!)}`
+      : formatTime(elapsed);
+    const auto = recording.reason && recording.reason !== "manual" ? ` · ${recording.reason}` : "";
+    return `REC ${clock} · ${recording.frameCount} frames${auto}`;
+  }
+
+  private async reloadReplays(api: ReplayApi, session: string) {
+    const replays = await api.listReplays(session);
+    // The session may have changed while the request was in flight
+    if (session !== this.visualizer?.session) return;
+    this.replays = replays;
+    this.page = Math.min(this.page, this.pageCount() - 1);
+    this.refreshControls();
+  }
+
+  private pageCount(): number {
+    return Math.max(1, Math.ceil(this.replays.length / REPLAY_SLOTS));
+  }
+
+  private turnPage(step: number) {
+    this.page = Math.min(Math.max(this.page + step, 0), this.pageCount() - 1);
+    this.pendingDelete = undefined;
+    this.refreshControls();
+  }
+
+  private replayInSlot(slot: number): ReplaySummary | undefined {
+    return this.replays[this.page * REPLAY_SLOTS + slot];
+  }
+
+  playReplayById(id: string): Promise<void> {
+    return this.run("Load replay", api => this.loadReplay(api, id));
+  }
+
+  /** Back to the live stream. */
+  exitReplay() {
+    this.visualizer?.stopReplay();
+    this.loadedId = undefined;
+    this.refreshControls();
+  }
+
+  private async loadReplay(api: ReplayApi, id: string) {
+    const frames = await api.loadReplay(id);
+    this.visualizer?.playReplay(frames, this.replays.find(r => r.id === id)?.adapter);
+    this.loadedId = id;
+    console.log(`[Replay] Playing ${id} (${frames.length} frames)`);
+    this.refreshControls();
+  }
+
+  private pendingDeleteId(): string | undefined {
+    const pending = this.pendingDelete;
+    return pending && performance.now() < pending.until ? pending.id : undefined;
+  }
+
+  // First click arms the button, a second one within CONFIRM_DELETE_MS deletes
+  private async deleteReplay(api: ReplayApi, replay: ReplaySummary) {
+    if (this.pendingDeleteId() !== replay.id) {
+      this.pendingDelete = { id: replay.id, until: performance.now() + CONFIRM_DELETE_MS };
+      this.refreshControls();
+      return;
+    }
+
+    this.pendingDelete = undefined;
+    await api.deleteReplay(replay.id);
+    this.replays = this.replays.filter(r => r.id !== replay.id);
+    this.page = Math.min(this.page, this.pageCount() - 1);
+    this.showToast(`Deleted ${replay.name}`);
+  }
+
+  // Cycles through the sessions the relay currently knows about
+  private async nextSession(api: ReplayApi) {
+    const current = this.visualizer?.session;
+    const ids = (await api.listSessions()).map(s => s.id).sort();
+    if (!ids.length) {
+      this.showToast("Relay has no sessions");
+      return;
+    }
+    const next = ids[(ids.indexOf(current ?? "") + 1) % ids.length];
+    if (next === current) return;
+
+    // index.ts reads this when rebuilding the visualizer
+    this.globals.session = next;
+    this.mapManager?.refresh();
+    console.log(`[Replay] Watching session ${next}`);
+  }
+
+  private heatmapKey(): string {
+    const heatmap = this.visualizer?.heatmap;
+    return heatmap ? `${heatmap.visible}${JSON.stringify(heatmap.currentFilter)}${heatmap.players.size}` : "";
+  }
+
+  // Steps to the option after the one matching the current filter
+  private cycleHeatmapOption(options: HeatmapOption[]) {
+    const heatmap = this.visualizer?.heatmap;
+    if (!heatmap) return;
+    const next = options[(this.heatmapOptionIndex(options) + 1) % options.length];
+    heatmap.setFilter({ ...heatmap.currentFilter, ...next.filter });
+    this.refreshControls();
+  }
+
+  private heatmapOptionIndex(options: HeatmapOption[]): number {
+    const filter = this.visualizer?.heatmap.currentFilter ?? {};
+    return Math.max(0, options.findIndex(option =>
+      Object.entries(option.filter).every(([key, value]) => filter[key as keyof HeatmapFilter] === value)));
+  }
+
+  // All players, then each player the heatmap has seen on its own
+  private cycleHeatmapPlayer() {
+    const heatmap = this.visualizer?.heatmap;
+    if (!heatmap) return;
+    const ids = [...heatmap.players.keys()];
+    const current = heatmap.currentFilter.players?.[0];
+    const next = current === undefined ? ids[0] : ids[ids.indexOf(current) + 1];
+    heatmap.setFilter({ ...heatmap.currentFilter, players: next === undefined ? undefined : [next] });
+    this.refreshControls();
+  }
+
+  private seekBy(deltaMs: number) {
+    const replay = this.visualizer?.replayPlayer;
+    if (!replay) return;
+    this.visualizer!.seekReplay(replay.currentTime + deltaMs);
+    this.refreshControls();
+  }
+
+  private scaleSpeed(factor: number) {
+    const replay = this.visualizer?.replayPlayer;
+    if (!replay) return;
+    replay.setSpeed(replay.playbackSpeed * factor);
+    this.refreshControls();
+  }
+
+  private refreshControls() {
+    const document = this.document;
+    if (!document) return;
+
+    const replay = this.visualizer?.replayPlayer;
+    const set = (id: string, properties: Record<string, unknown>) =>
+      (document.getElementById(id) as UIKit.Text | null)?.setProperties(properties);
+
+    const connection = this.visualizer?.connectionState;
+    const status = this.statusKey();
+    this.lastRefreshKey = this.refreshKey();
+
+    set("replay-status", {
+      text: replay
+        ? `Replay · ${replay.frameCount} frames`
+        : connection ? CONNECTION_LABELS[connection] : "Live",
+    });
+    set("replay-time", {
+      text: replay ? status : "0:00 / 0:00",
     });
+    set("session-picker", { text: `Session: ${this.visualizer?.session ?? "–"}` });
+    set("play-pause", { text: replay?.isPlaying ? "Pause" : "Play" });
+    set("speed-label", { text: `${replay?.playbackSpeed ?? 1}x` });
+    set("loop-toggle", { text: `Loop: ${replay?.isLooping ? "On" : "Off"}` });
+
+    const progress = replay && replay.duration > 0 ? replay.currentTime / replay.duration : 0;
+    set("scrubber-fill", { width: `${(progress * 100).toFixed(1)}%` });
+
+    const toast = this.activeToast();
+    set("toast", toast
+      ? { display: "flex", text: toast.text, backgroundColor: toast.error ? "#7f1d1d" : "#14532d" }
+      : { display: "none" });
+
+    const recording = this.recording?.isRecording ?? false;
+    set("rec-dot", { backgroundColor: recording ? "#ef4444" : "#3f3f46" });
+    set("rec-status", { text: this.recordingLabel(), color: recording ? "#fafafa" : "#a1a1aa" });
+
+    this.refreshHeatmap(set);
+    set("camera-mode", { text: CAMERA_LABELS[this.spectator?.mode ?? "free"] });
+    set("camera-target", { text: this.spectator?.targetName ?? "No player" });
+    set("map-spin", { text: `Spin: ${this.mapView?.isSpinning ? "On" : "Off"}` });
+    set("draw-tool", { text: DRAW_LABELS[this.telestration?.tool ?? "off"] });
+    set("draw-color", { backgroundColor: `#${(this.telestration?.color ?? 0).toString(16).padStart(6, "0")}` });
+    set("room-row", { display: this.room?.isActive ? "flex" : "none" });
+    set("room-status", { text: this.room?.status ?? "–" });
+    set("room-host", { display: this.room?.isHost ? "none" : "flex" });
+    set("tabletop-row", { display: this.tabletop?.isActive ? "flex" : "none" });
+    set("place-map", { text: this.tabletop?.isPlacing ? "Look at a table…" : "Place map" });
+    this.refreshReplayList(set);
+  }
+
+  private refreshHeatmap(set: (id: string, properties: Record<string, unknown>) => void) {
+    const heatmap = this.visualizer?.heatmap;
+    const player = heatmap?.currentFilter.players?.[0];
+    set("heatmap-toggle", { text: heatmap?.visible ? "On" : "Off" });
+    set("heatmap-window", { text: `Time: ${HEATMAP_WINDOWS[this.heatmapOptionIndex(HEATMAP_WINDOWS)].label}` });
+    set("heatmap-speed", { text: `Speed: ${HEATMAP_SPEEDS[this.heatmapOptionIndex(HEATMAP_SPEEDS)].label}` });
+    set("heatmap-player", { text: `Players: ${player === undefined ? "All" : heatmap?.players.get(player) ?? player}` });
+  }
+
+  private refreshReplayList(set: (id: string, properties: Record<string, unknown>) => void) {
+    const count = this.replays.length;
+    set("replay-count", { text: count ? `${count} saved` : "None yet" });
+    set("page-label", { text: `${this.page + 1} / ${this.pageCount()}` });
+
+    const pendingDelete = this.pendingDeleteId();
+    for (let slot = 0; slot < REPLAY_SLOTS; slot++) {
+      const replay = this.replayInSlot(slot);
+      set(`replay-row-${slot}`, { display: replay ? "flex" : "none" });
+      if (!replay) continue;
+
+      const players = `${replay.playerCount} player${replay.playerCount === 1 ? "" : "s"}`;
+      set(`replay-title-${slot}`, { text: replay.map ? `${replay.name} · ${replay.map}` : replay.name });
+      set(`replay-meta-${slot}`, { text: `${formatDate(replay.timestamp)} · ${formatTime(replay.duration)} · ${players}` });
+      set(`replay-load-${slot}`, { text: replay.id === this.loadedId && this.visualizer?.replayPlayer ? "Playing" : "Load" });
+      set(`replay-delete-${slot}`, { text: replay.id === pendingDelete ? "Confirm" : "Delete" });
+    }
   }
 }
@@ -2,40 +2,88 @@
 import * as THREE from 'three';
 import type { World } from '@iwsdk/core';
 
-import { createConfig } from './config';
+import { createConfig, withSession, withToken } from './config';
 import { CoordinateTransformer } from './coordinateTransformer';
 import { DataFetcher } from './dataFetcher';
-import { LabelRenderer } from './labelRenderer';
+import { LabelContent, LabelRenderer, NameLabel } from './labelRenderer';
 import { TrailRenderer } from './trailRenderer';
+import { HeatmapRenderer } from './heatmapRenderer';
+import { InstancedPlayers } from './instancedPlayers';
+import { HeadingRenderer } from './headingRenderer';
 import { PlayerEntity } from './playerEntity';
 import { BoundsDebugger } from './boundsDebugger';
-import { Billboarding } from './billboarding';
-import { PlayerVisualizerConfig, PlayerEntry } from './types';
+import { LabelBillboard } from './billboarding';
+import { ReplayPlayer } from './replayPlayer';
+import { WebSocketTransport } from './webSocketTransport';
+import { PlayerMotion } from './interpolationSystem';
+import { PlayerFade, fadeTo, setOpacity } from './fadeSystem';
+import { PlayerColorizer, colorOf } from './colorScheme';
+import { DEFAULT_ADAPTER_ID, getAdapter, type TelemetryAdapter } from '../../shared/adapters/index.js';
+import { PlayerVisualizerConfig, PlayerEntry, PlayerData, PlayerAngles, ReplayFrame, ConnectionState } from './types';
+
+const EYE_HEIGHT_METERS = 1.6;
+const MIN_FACING_SPEED = 1;       // Game units/s below which travel direction is noise
 
 export class PlayerVisualizer {
   private readonly config = createConfig(this.userConfig);
-  private readonly transformer = new CoordinateTransformer();
-  private readonly dataFetcher = new DataFetcher(this.config.dataUrl, this.config.useMock, this.config.debugMode);
-  private readonly labelRenderer = new LabelRenderer(this.config.labelFontSize, this.config.labelColor, this.config.labelHeight);
-  private readonly trailRenderer = new TrailRenderer(this.config.trailEnabled, this.config.trailLength, this.config.trailWidth, this.config.trailOpacity, this.cityMesh);
-  private readonly playerEntity = new PlayerEntity(this.world, this.cityMesh, this.config.playerRadius, this.config.playerColor, this.labelRenderer, this.trailRenderer);
+  private readonly transformer = new CoordinateTransformer(this.config.transform);
+  // The map's adapter until the relay names the session's own
+  private adapter: TelemetryAdapter = getAdapter(this.config.adapter) ?? getAdapter(DEFAULT_ADAPTER_ID)!;
+  private readonly dataFetcher = new DataFetcher(withSession(this.config.dataUrl, this.config.session), this.config.useMock, this.config.debugMode, this.config.getRelayToken);
+  private readonly labelRenderer = new LabelRenderer(
+    this.config.labelFontSize,
+    this.config.labelColor,
+    this.config.labelFont,
+    this.config.labelBackground,
+    this.config.labelBackgroundColor,
+    this.config.labelBackgroundOpacity
+  );
+  private readonly trailRenderer = new TrailRenderer(this.config.trailEnabled, this.config.trailLength, this.config.trailWidth, this.config.trailOpacity, this.config.trailFade, this.cityMesh);
+  private readonly headingRenderer = new HeadingRenderer(this.config.showHeading, this.config.showLookRay, this.config.lookRayLength, this.config.playerRadius);
+  private readonly playerEntity = new PlayerEntity(this.world, this.cityMesh, this.config.playerRadius, this.config.playerColor, this.labelRenderer, this.trailRenderer, this.config.labelScaleWithDistance, this.config.labelDeclutter);
   private readonly boundsDebugger = new BoundsDebugger();
-  private readonly billboarding = new Billboarding();
+  private readonly colorizer = new PlayerColorizer(
+    this.config.colorScheme,
+    this.config.teamColors,
+    this.config.colorField,
+    this.config.colorFieldRange,
+    this.config.playerColor
+  );
 
   private players = new Map<string, PlayerEntry>();
-  private lastPos = new Map<string, THREE.Vector3>();
+  private instances?: InstancedPlayers;            // Created the first time instancing is used
+  private instanced = this.config.renderMode === 'instanced';
+  private gamePositions = new Map<string, THREE.Vector3>();
+  private facings = new Map<string, THREE.Vector3>();  // Hologram-local, unit length
+  private eyeOffset: THREE.Vector3;
   private bounds?: THREE.Box3;
+  private readonly heatmapRenderer: HeatmapRenderer;
   private timer?: number;
+  private replay?: ReplayPlayer;
+  private stream?: WebSocketTransport;
+  private lastTick = performance.now();
 
   constructor(
     private world: World,
     private cityMesh: THREE.Group,
     private userConfig: Partial<PlayerVisualizerConfig> = {}
   ) {
+    this.eyeOffset = this.computeEyeOffset();
+
     this.bounds = this.config.boundingBox
       ? this.config.boundingBox.clone().expandByScalar(2)
       : new THREE.Box3().setFromObject(cityMesh);
 
+    this.heatmapRenderer = new HeatmapRenderer(
+      this.bounds,
+      this.config.heatmapResolution,
+      this.config.heatmapMaxSamples,
+      this.config.heatmapOpacity,
+      this.config.heatmapHeight,
+      cityMesh
+    );
+    this.heatmapRenderer.visible = this.config.heatmapEnabled;
+
     if (this.config.showBounds) this.boundsDebugger.show(this.bounds, world, cityMesh);
     if (this.config.debugMode && this.bounds) {
       const c = this.bounds.getCenter(new THREE.Vector3());
@@ -44,105 +92,419 @@ export class PlayerVisualizer {
     }
 
     this.labelRenderer.loadFont().then(() => this.restartAllLabels());
+    this.startStream();
     this.startPolling();
   }
 
+  /** Latest raw game-space position of every reporting player, keyed by name. */
+  get latestGamePositions(): ReadonlyMap<string, THREE.Vector3> {
+    return this.gamePositions;
+  }
+
+  get session(): string {
+    return this.config.session;
+  }
+
+  get connectionState(): ConnectionState {
+    if (this.config.useMock) return 'mock';
+    if (this.stream?.isOpen) return 'websocket';
+    return this.dataFetcher.lastOk ? 'polling' : 'offline';
+  }
+
+  get replayPlayer(): ReplayPlayer | undefined {
+    return this.replay;
+  }
+
+  /** Players on the map that are alive and not leaving, in a stable order for cycling. */
+  get activePlayerIds(): string[] {
+    const ids: string[] = [];
+    this.players.forEach((entry, id) => {
+      if (!entry.dead && !entry.leaving) ids.push(id);
+    });
+    this.instances?.forEach((player, id) => {
+      if (!player.dead) ids.push(id);
+    });
+    return ids.sort();
+  }
+
+  playerName(id: string): string | undefined {
+    return this.players.get(id)?.name ?? this.instances?.get(id)?.name;
+  }
+
+  /**
+   * Hologram-local eye position and facing of a player as drawn this frame. Facing is
+   * the look direction when the game sends angles, else the direction of travel, and is
+   * left untouched until one is known. Returns false once the player is gone.
+   */
+  playerView(id: string, eye: THREE.Vector3, facing: THREE.Vector3): boolean {
+    const position = this.players.get(id)?.entity.object3D?.position ?? this.instances?.get(id)?.position;
+    if (!position) return false;
+    eye.copy(position).add(this.eyeOffset);
+    const known = this.facings.get(id);
+    if (known) facing.copy(known);
+    return true;
+  }
+
+  /** World scale at which the hologram is life-size, for first-person viewing in XR. */
+  get lifeSizeScale(): number {
+    return 1 / (this.transformer.unitScale * this.adapter.coordinateSystem.unitsPerMeter);
+  }
+
+  /** Positions of the live session, or of the whole replay while one is loaded (its time window ends at the playhead). */
+  get heatmap(): HeatmapRenderer {
+    return this.heatmapRenderer;
+  }
+
+  /** Switch from live polling to playing back a recorded frame list, recorded with `adapter` if known. */
+  playReplay(frames: ReplayFrame[], adapter?: string | null): ReplayPlayer {
+    this.clearPlayers();
+    this.useAdapter(adapter);
+    this.replay = new ReplayPlayer(frames);
+    this.replay.play();
+
+    this.heatmapRenderer.clear();
+    this.heatmapRenderer.setPlayhead(this.replay.currentTimestamp);
+    for (const frame of frames) {
+      for (const p of frame.players) {
+        const worldPos = this.transformer.map(new THREE.Vector3(p.position.x, p.position.y, p.position.z));
+        this.addHeatmapSample(p, worldPos, frame.t);
+      }
+    }
+    return this.replay;
+  }
+
+  /** Leave playback mode and resume the live feed. */
+  stopReplay() {
+    if (!this.replay) return;
+    this.replay = undefined;
+    this.clearPlayers();
+    // Live collection starts over; the replay's positions don't belong to it
+    this.heatmapRenderer.clear();
+    this.heatmapRenderer.setPlayhead(undefined);
+  }
+
+  seekReplay(time: number) {
+    if (!this.replay) return;
+    this.replay.seek(time);
+    this.resetTrails();
+  }
+
   private async updatePlayers() {
+    const now = performance.now();
+    const delta = now - this.lastTick;
+    this.lastTick = now;
+    this.heatmapRenderer.flush();
+
+    if (this.replay) {
+      this.replay.advance(delta);
+      this.heatmapRenderer.setPlayhead(this.replay.currentTimestamp);
+      this.applyPlayers(this.replay.currentFrame()?.players ?? []);
+      return;
+    }
+
+    // While the socket is up the relay pushes updates; polling is only the fallback
+    if (this.stream?.isOpen) return;
+
     const playersData = await this.dataFetcher.fetch();
-    if (!playersData.length) return;
+    // A replay may have started while the request was in flight; a failed request
+    // says nothing about who left, so the map stays as it was
+    if (this.replay || !this.dataFetcher.lastOk) return;
+    this.useAdapter(this.dataFetcher.adapter);
+    this.applyPlayers(playersData);
+  }
+
+  private applyPlayers(playersData: PlayerData[]) {
+    // An empty list still runs the vanished-player pass below, so a stretch of replay
+    // with nobody in it clears the map instead of freezing the last frame's players
+    if (playersData.length) this.chooseRenderMode(playersData.length);
 
     const seen = new Set<string>();
+    const seenNames = new Set<string>();
 
+    // Keyed by id: two players can share a nickname
     for (const p of playersData) {
-      seen.add(p.name);
+      seen.add(p.id);
+      seenNames.add(p.name);
 
-      const vel = typeof p.velocity === 'string'
-        ? p.velocity.match(/\[([\d.-]+) ([\d.-]+) ([\d.-]+)\]/)
-          ? { x: +RegExp.$1, y: +RegExp.$2, z: +RegExp.$3 }
-          : { x: 0, y: 0, z: 0 }
-        : p.velocity;
+      const vel = p.velocity;
+      const gamePos = new THREE.Vector3(p.position.x, p.position.y, p.position.z);
+      // Recorded before the bounds check so calibration can see players a bad transform puts off-map
+      this.gamePositions.set(p.name, gamePos);
 
-      const worldPos = this.transformer.map(new THREE.Vector3(p.x, p.y, p.z));
+      const worldPos = this.transformer.map(gamePos);
       if (this.bounds && !this.bounds.containsPoint(worldPos)) continue;
 
       const speed = Math.hypot(vel.x, vel.y, vel.z);
-      const color = new THREE.Color().setHSL((speed / 100) % 1, 1, 0.5);
+      const color = this.colorizer.colorFor(p, speed);
+      const trailColor = this.config.trailColor === 'body' ? color : this.colorizer.speedColor(speed);
 
-      let entry = this.players.get(p.name);
-      if (!entry) {
-        entry = this.playerEntity.create(p.name);
-        this.players.set(p.name, entry);
+      if (this.instanced) {
+        this.applyInstanced(p, worldPos, color, trailColor);
+        continue;
+      }
 
-        // START BILLBOARDING WHEN FIRST PLAYER APPEARS
-        if (this.players.size === 1) {
-          this.billboarding.start(this.world, this.players);
-          console.log("Billboarding STARTED with", this.players.size, "players");
+      const label = this.labelContent(p, speed);
+      let entry = this.players.get(p.id);
+      if (!entry) {
+        entry = this.playerEntity.create(label, p.kind);
+        entry.heading = this.headingRenderer.create(entry.mesh);
+        this.players.set(p.id, entry);
+        entry.entity.object3D.position.copy(worldPos);
+        if (this.config.interpolation) {
+          entry.entity.addComponent(PlayerMotion, {
+            buffer: entry.motion,
+            renderDelay: this.config.renderDelay,
+            maxExtrapolation: this.config.maxExtrapolation,
+          });
         }
       }
 
-      entry.entity.object3D.position.copy(worldPos);
+      // Polling can return the same relay sample twice; a duplicate would stall the interpolation
+      if (p.t !== undefined && p.t === entry.lastSampleTime) continue;
+      entry.lastSampleTime = p.t;
+      this.updateLifeState(entry, p.alive === false);
+      const look = p.angles ? this.lookDirection(p.angles) : undefined;
+      this.updateFacing(p, speed, look);
+      if (!this.replay && !entry.dead) this.addHeatmapSample(p, worldPos, p.t ?? Date.now());
+
+      if (this.config.interpolation) {
+        entry.motion.push(performance.now(), worldPos, this.worldVelocity(p));
+      } else {
+        entry.entity.object3D.position.copy(worldPos);
+      }
       this.playerEntity.updateColor(entry.mesh, color);
+      if (entry.label) this.updateLabel(entry, entry.label, label);
 
-      // Trail handling
-      const prev = this.lastPos.get(p.name);
-      const cur = worldPos.clone();
-      if (prev && entry.points.length === 0) entry.points.push(prev.clone());
-      entry.points.push(cur);
-      if (entry.points.length > this.config.trailLength) entry.points.shift();
-      this.lastPos.set(p.name, cur);
+      if (look) this.headingRenderer.update(entry.heading, look, color);
 
-      this.playerEntity.updateTrail(entry, color);
+      if (!entry.dead) this.playerEntity.updateTrail(entry, worldPos, trailColor);
     }
 
-    // Remove vanished players
-    for (const [name] of this.players) {
-      if (!seen.has(name)) this.removePlayer(name);
+    // Vanished players fade out first; one that comes back before the fade ends just fades in again
+    for (const [id, entry] of this.players) {
+      if (seen.has(id) || entry.leaving) continue;
+      entry.leaving = true;
+      this.fade(entry, 0, () => this.removePlayer(id));
+    }
+    this.instances?.forEach((_, id) => {
+      if (!seen.has(id)) this.removeInstanced(id);
+    });
+    for (const [name] of this.gamePositions) {
+      if (!seenNames.has(name)) this.gamePositions.delete(name);
     }
   }
 
-  private removePlayer(name: string) {
-    const e = this.players.get(name);
+  // Dead players stay as a faded ghost without a trail; respawning starts a new trail
+  // and snaps to the spawn instead of gliding there
+  private updateLifeState(entry: PlayerEntry, dead: boolean) {
+    const wasDead = entry.dead ?? false;
+    if (dead === wasDead && !entry.leaving) return;
+
+    entry.dead = dead;
+    entry.leaving = false;
+    this.fade(entry, dead ? this.config.deadOpacity : 1);
+    if (wasDead && !dead) {
+      this.trailRenderer.reset(entry);
+      entry.motion.clear();
+    }
+  }
+
+  private fade(entry: PlayerEntry, to: number, onDone?: () => void) {
+    const objects: THREE.Object3D[] = [entry.labelRoot];
+    if (entry.trail) objects.push(entry.trail.mesh);
+    fadeTo(entry.entity, to, this.config.fadeDuration, objects, onDone);
+  }
+
+  private labelContent(p: PlayerData, speed: number): LabelContent {
+    const content: LabelContent = { title: p.name };
+    if (p.team !== undefined) content.color = colorOf(this.config.teamColors, p.team);
+    if (this.config.labelDetail === 'speed') content.detail = `${Math.round(speed)} u/s`;
+    if (this.config.labelDetail === 'health' && p.health !== undefined) content.detail = `HP ${Math.round(p.health)}`;
+    return content;
+  }
+
+  // Text is rebuilt in place; the billboard only needs the new size when the layout changed
+  private updateLabel(entry: PlayerEntry, label: NameLabel, content: LabelContent) {
+    label.update(content);
+    if (entry.labelEntity.getValue(LabelBillboard, 'width') !== label.width) {
+      entry.labelEntity.setValue(LabelBillboard, 'width', label.width);
+    }
+    if (entry.labelEntity.getValue(LabelBillboard, 'height') !== label.height) {
+      entry.labelEntity.setValue(LabelBillboard, 'height', label.height);
+    }
+  }
+
+  // Same steps as the per-player path, minus entities, label billboarding, detail lines
+  // and fading: dead players are only washed out and vanished ones removed at once
+  private applyInstanced(p: PlayerData, worldPos: THREE.Vector3, color: THREE.Color, trailColor: THREE.Color) {
+    this.instances ??= new InstancedPlayers(
+      this.world,
+      this.cityMesh,
+      this.config.playerRadius,
+      this.config.labelFontSize,
+      this.config.labelColor,
+      this.config.labelScaleWithDistance,
+      this.config.showHeading,
+      this.config.interpolation
+        ? { renderDelay: this.config.renderDelay, maxExtrapolation: this.config.maxExtrapolation }
+        : undefined
+    );
+    const labelColor = colorOf(this.config.teamColors, p.team) ?? this.config.labelColor;
+    const player = this.instances.get(p.id) ?? this.instances.create(p.id, p.name, worldPos, p.kind, labelColor);
+    if (player.labelColor !== labelColor) this.instances.relabel(player, labelColor);
+
+    if (p.t !== undefined && p.t === player.lastSampleTime) return;
+    player.lastSampleTime = p.t;
+    if (!this.replay && p.alive !== false) this.addHeatmapSample(p, worldPos, p.t ?? Date.now());
+
+    if (this.config.interpolation) {
+      player.motion.push(performance.now(), worldPos, this.worldVelocity(p));
+    } else {
+      player.position.copy(worldPos);
+    }
+    player.color.copy(color);
+    player.dead = p.alive === false;
+    const look = p.angles ? this.lookDirection(p.angles) : undefined;
+    if (look && look.lengthSq() > 0) player.heading = look.clone().normalize();
+    this.updateFacing(p, Math.hypot(p.velocity.x, p.velocity.y, p.velocity.z), look);
+
+    if (p.alive !== false) this.trailRenderer.push(player, worldPos, trailColor);
+  }
+
+  // 'auto' instances above instancedThreshold players and goes back below half of it;
+  // players are rebuilt by the same packet, only their trails start over
+  private chooseRenderMode(count: number) {
+    if (this.config.renderMode !== 'auto') return;
+
+    const threshold = this.config.instancedThreshold;
+    const instanced = this.instanced ? count >= threshold / 2 : count > threshold;
+    if (instanced === this.instanced) return;
+
+    this.clearPlayers();
+    this.instanced = instanced;
+    if (this.config.debugMode) console.log(`${count} players → ${instanced ? 'instanced' : 'per-player'} rendering`);
+  }
+
+  private updateFacing(p: PlayerData, speed: number, look?: THREE.Vector3) {
+    const facing = look ?? (speed > MIN_FACING_SPEED ? this.worldVelocity(p) : undefined);
+    if (facing && facing.lengthSq() > 0) this.facings.set(p.id, facing.clone().normalize());
+  }
+
+  private worldVelocity(p: PlayerData): THREE.Vector3 {
+    const { x, y, z } = p.velocity;
+    return this.transformer.mapDirection(new THREE.Vector3(x, y, z));
+  }
+
+  // Sessions can come from different games; unknown ids keep the current adapter
+  private useAdapter(id: string | null | undefined) {
+    if (!id || id === this.adapter.id) return;
+    const adapter = getAdapter(id);
+    if (!adapter) return;
+    this.adapter = adapter;
+    this.eyeOffset = this.computeEyeOffset();
+    // Facings were worked out with the old angle convention
+    this.facings.clear();
+    if (this.config.debugMode) console.log(`Telemetry adapter → ${adapter.id}`);
+  }
+
+  private computeEyeOffset(): THREE.Vector3 {
+    const { up, unitsPerMeter } = this.adapter.coordinateSystem;
+    return this.transformer.mapDirection(
+      new THREE.Vector3().setComponent('xyz'.indexOf(up), EYE_HEIGHT_METERS * unitsPerMeter)
+    );
+  }
+
+  private lookDirection(angles: PlayerAngles): THREE.Vector3 {
+    const { x, y, z } = this.adapter.lookDirection(angles);
+    return this.transformer.mapDirection(new THREE.Vector3(x, y, z));
+  }
+
+  private removeInstanced(id: string) {
+    const player = this.instances?.remove(id);
+    if (player) this.trailRenderer.dispose(player);
+    this.facings.delete(id);
+  }
+
+  private addHeatmapSample(p: PlayerData, worldPos: THREE.Vector3, t: number) {
+    const { x, y, z } = p.velocity;
+    this.heatmapRenderer.add(p.id, p.name, worldPos, Math.hypot(x, y, z), t);
+  }
+
+  private removePlayer(id: string) {
+    const e = this.players.get(id);
     if (!e) return;
 
-    const { entity, mesh, label, trail, labelRoot } = e;
+    const { entity, mesh, label, labelEntity, heading } = e;
 
     if (entity.object3D) {
       this.cityMesh.remove(entity.object3D);
       entity.destroy?.();
     }
+    this.headingRenderer.dispose(heading);
     mesh.geometry.dispose();
     (mesh.material as THREE.Material).dispose();
 
-    if (label instanceof THREE.Mesh) {
-      label.geometry.dispose();
-      (label.material as THREE.Material).dispose();
-    } else if (label) {
-      label.material.map?.dispose();
-      label.material.dispose();
-    }
+    label?.dispose();
 
-    if (trail) {
-      this.cityMesh.remove(trail);
-      trail.geometry.dispose();
-      (trail.material as THREE.Material).dispose();
-    }
+    this.trailRenderer.dispose(e);
+    this.facings.delete(id);
 
-    // Remove world-space label root
-    if (labelRoot?.parent) {
-      this.world.scene.remove(labelRoot);
-    }
+    // World-space label root
+    labelEntity.object3D?.removeFromParent();
+    labelEntity.destroy?.();
 
-    this.players.delete(name);
-    this.lastPos.delete(name);
+    this.players.delete(id);
+  }
+
+  // Drop trail and motion history so a seek neither draws nor glides across the jump
+  private resetTrails() {
+    this.players.forEach(entry => {
+      this.trailRenderer.reset(entry);
+      entry.motion.clear();
+    });
+    this.instances?.forEach(player => {
+      this.trailRenderer.reset(player);
+      player.motion.clear();
+    });
+  }
+
+  private clearPlayers() {
+    this.players.forEach((_, id) => this.removePlayer(id));
+    this.players.clear();
+    this.instances?.forEach((_, id) => this.removeInstanced(id));
+    this.gamePositions.clear();
   }
 
   private restartAllLabels() {
-    this.players.forEach((entry, name) => {
-      if (entry.label?.parent) entry.labelRoot.remove(entry.label);
-      entry.label = this.labelRenderer.createLabel(entry.labelRoot, name);
+    this.players.forEach(entry => {
+      const content = entry.label?.content ?? { title: entry.name };
+      entry.label?.dispose();
+      entry.label = this.labelRenderer.createLabel(entry.labelRoot, content);
+      entry.labelEntity.setValue(LabelBillboard, 'width', entry.label.width);
+      entry.labelEntity.setValue(LabelBillboard, 'height', entry.label.height);
+      // New materials start opaque; match a dead or leaving player's current fade
+      if (entry.entity.hasComponent(PlayerFade)) setOpacity(entry.labelRoot, entry.entity.getValue(PlayerFade, 'opacity'));
     });
   }
 
+  private startStream() {
+    if (this.config.transport !== 'websocket' || this.config.useMock) return;
+
+    this.stream = new WebSocketTransport(
+      () => withToken(withSession(this.config.streamUrl, this.config.session), this.config.getRelayToken()),
+      (players, adapter) => {
+        if (this.replay) return;
+        this.useAdapter(adapter);
+        this.applyPlayers(players);
+      },
+      (open) => {
+        if (this.config.debugMode) console.log(`Live stream ${open ? 'connected' : 'lost → HTTP polling'}`);
+      },
+      this.config.debugMode
+    );
+    this.stream.connect();
+  }
+
   private startPolling() {
     this.updatePlayers();
     this.timer = window.setInterval(() => this.updatePlayers(), this.config.updateInterval);
@@ -150,10 +512,11 @@ export class PlayerVisualizer {
 
   destroy() {
     if (this.timer) clearInterval(this.timer);
-    this.billboarding.stop();
-    this.players.forEach((_, name) => this.removePlayer(name));
-    this.players.clear();
-    this.lastPos.clear();
+    this.stream?.close();
+    this.replay = undefined;
+    this.clearPlayers();
     this.boundsDebugger.destroy(this.cityMesh);
+    this.heatmapRenderer.dispose();
+    this.instances?.dispose();
   }
 }
\ No newline at end of file
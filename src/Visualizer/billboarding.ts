@@ -1,41 +1,111 @@
 // src/visualizer/billboarding.ts
+import { createComponent, createSystem, Types, VisibilityState } from '@iwsdk/core';
 import * as THREE from 'three';
-import type { World } from '@iwsdk/core';
-import { PlayerEntry } from './types';
 
-export class Billboarding {
-  private frameId?: number;
-  private camPos = new THREE.Vector3();
+// Labels are authored to read well from this far away (world units) and scale linearly past it
+export const REFERENCE_DISTANCE = 2;
+export const MIN_SCALE = 0.5;
+export const MAX_SCALE = 4;
 
-  start(world: World, players: Map<string, PlayerEntry>): void {
-    if (this.frameId) cancelAnimationFrame(this.frameId);
+export const LabelBillboard = createComponent('LabelBillboard', {
+  target: { type: Types.Object, default: undefined },   // Object3D the label follows (the player sphere)
+  offset: { type: Types.Float32, default: 1 },          // Target-local units above it, so it follows the map's scale
+  width: { type: Types.Float32, default: 0 },           // World size at scale 1, for overlap tests
+  height: { type: Types.Float32, default: 0 },
+  scaleWithDistance: { type: Types.Boolean, default: true },
+  declutter: { type: Types.Boolean, default: true },    // Hide when a nearer label covers it
+});
 
-    const update = () => {
-      world.camera.getWorldPosition(this.camPos);
+interface ScreenRect {
+  root: THREE.Object3D;
+  distance: number;
+  x: number;
+  y: number;
+  halfWidth: number;
+  halfHeight: number;
+}
 
-      players.forEach(entry => {
-        if (!entry.labelRoot || !entry.label) return;
+/**
+ * Keeps world-space name labels above their players, turned towards the viewer
+ * (the XR head in a session, the camera otherwise), sized by distance, and hides
+ * labels that a nearer one overlaps on screen.
+ */
+export class LabelBillboardSystem extends createSystem({
+  labels: { required: [LabelBillboard] },
+}) {
+  private viewerPos = new THREE.Vector3();
+  private pos = new THREE.Vector3();
+  private ndc = new THREE.Vector3();
+  private targetScale = new THREE.Vector3();
+  private rects: ScreenRect[] = [];
 
-        const pos = new THREE.Vector3();
-        entry.entity.object3D.getWorldPosition(pos);
-        pos.y += entry.mesh.scale.x;
+  update() {
+    const immersive = this.world.visibilityState.value !== VisibilityState.NonImmersive;
+    const viewer = immersive ? this.player.head : this.world.camera;
+    viewer.getWorldPosition(this.viewerPos);
 
-        entry.labelRoot.position.copy(pos);
-        entry.labelRoot.lookAt(this.camPos.x, pos.y, this.camPos.z);
+    const camera = this.world.camera;
+    const projection = camera.projectionMatrix.elements;
+    let count = 0;
 
-        if (entry.label instanceof THREE.Sprite) {
-          (entry.label.material as THREE.SpriteMaterial).rotation = 0;
-        }
-      });
+    this.queries.labels.entities.forEach((entity) => {
+      const root = entity.object3D;
+      const target = entity.getValue(LabelBillboard, 'target') as THREE.Object3D | undefined;
+      if (!root || !target) return;
+
+      target.getWorldPosition(this.pos);
+      this.pos.y += (entity.getValue(LabelBillboard, 'offset') as number) * target.getWorldScale(this.targetScale).y;
+      root.position.copy(this.pos);
+      root.parent?.worldToLocal(root.position);
+      root.lookAt(this.viewerPos.x, this.pos.y, this.viewerPos.z);
+
+      const distance = this.pos.distanceTo(this.viewerPos);
+      const scale = entity.getValue(LabelBillboard, 'scaleWithDistance')
+        ? THREE.MathUtils.clamp(distance / REFERENCE_DISTANCE, MIN_SCALE, MAX_SCALE)
+        : 1;
+      root.scale.setScalar(scale);
+      root.visible = true;
+
+      if (!entity.getValue(LabelBillboard, 'declutter')) return;
 
-      console.log(`Billboarding running → ${players.size} players`);
-      this.frameId = requestAnimationFrame(update);
-    };
+      // Project the centre; the extent follows from the projection's focal lengths
+      this.ndc.copy(this.pos).project(camera);
+      if (this.ndc.z > 1 || distance === 0) return;
 
-    update();
+      const rect = this.rects[count] ??= { root, distance: 0, x: 0, y: 0, halfWidth: 0, halfHeight: 0 };
+      rect.root = root;
+      rect.distance = distance;
+      rect.x = this.ndc.x;
+      rect.y = this.ndc.y;
+      rect.halfWidth = (entity.getValue(LabelBillboard, 'width') as number) * scale * projection[0] / (2 * distance);
+      rect.halfHeight = (entity.getValue(LabelBillboard, 'height') as number) * scale * projection[5] / (2 * distance);
+      count++;
+    });
+
+    this.declutter(count);
   }
 
-  stop(): void {
-    if (this.frameId) cancelAnimationFrame(this.frameId);
+  // Nearest labels win; anything overlapping an already shown label is hidden
+  private declutter(count: number) {
+    const rects = this.rects;
+    // Insertion sort: the order barely changes between frames
+    for (let i = 1; i < count; i++) {
+      const rect = rects[i];
+      let j = i - 1;
+      for (; j >= 0 && rects[j].distance > rect.distance; j--) rects[j + 1] = rects[j];
+      rects[j + 1] = rect;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const a = rects[i];
+      for (let j = 0; j < i; j++) {
+        const b = rects[j];
+        if (!b.root.visible) continue;
+        if (Math.abs(a.x - b.x) < a.halfWidth + b.halfWidth && Math.abs(a.y - b.y) < a.halfHeight + b.halfHeight) {
+          a.root.visible = false;
+          break;
+        }
+      }
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,70 @@
+// src/visualizer/colorScheme.ts
+import * as THREE from 'three';
+import type { ColorScheme, PlayerData } from './types';
+
+const GOLDEN_RATIO = 0.618033988749895;
+const DEAD_GREY = new THREE.Color(0x808080);
+
+// Stable, well-spread hue for a category (team or field value) nobody configured a colour for
+function categoryHue(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  return (Math.abs(hash) * GOLDEN_RATIO) % 1;
+}
+
+/** Configured colour for a category; own keys only, so a team called "constructor" isn't a function. */
+export function colorOf(colors: Record<string, number>, value: string | undefined): number | undefined {
+  return value !== undefined && Object.prototype.hasOwnProperty.call(colors, value) ? colors[value] : undefined;
+}
+
+/** Field used by the 'field' scheme: a tag first, then a top-level player field (role, health…). */
+export function fieldValue(p: PlayerData, field: string): unknown {
+  return p.tags?.[field] ?? (p as unknown as Record<string, unknown>)[field];
+}
+
+export class PlayerColorizer {
+  constructor(
+    private scheme: ColorScheme,
+    private teamColors: Record<string, number>,
+    private field: string,
+    private fieldRange: [number, number],
+    private fallback: number
+  ) {}
+
+  /** Body and heading colour (and trail colour with trailColor 'body'); dead players are washed out towards grey. */
+  colorFor(p: PlayerData, speed: number, target = new THREE.Color()): THREE.Color {
+    switch (this.scheme) {
+      case 'team':
+        this.category(p.team, this.teamColors, target);
+        break;
+      case 'field':
+        this.fieldColor(fieldValue(p, this.field), target);
+        break;
+      default:
+        this.speedColor(speed, target);
+    }
+    return p.alive === false ? target.lerp(DEAD_GREY, 0.7) : target;
+  }
+
+  /** Hue that cycles every 100 u/s; trails use it whatever the body scheme. */
+  speedColor(speed: number, target = new THREE.Color()): THREE.Color {
+    return target.setHSL((speed / 100) % 1, 1, 0.5);
+  }
+
+  private category(value: string | undefined, colors: Record<string, number>, target: THREE.Color) {
+    if (value === undefined) return target.setHex(this.fallback);
+    const color = colorOf(colors, value);
+    return color !== undefined ? target.setHex(color) : target.setHSL(categoryHue(value), 0.9, 0.55);
+  }
+
+  // Numbers run red (range min) → green (range max); anything else is a category
+  private fieldColor(value: unknown, target: THREE.Color) {
+    if (typeof value === 'number') {
+      const [min, max] = this.fieldRange;
+      const t = max > min ? THREE.MathUtils.clamp((value - min) / (max - min), 0, 1) : 1;
+      return target.setHSL(t / 3, 1, 0.5);
+    }
+    if (value === undefined || value === null) return target.setHex(this.fallback);
+    return this.category(String(value), this.field === 'team' ? this.teamColors : {}, target);
+  }
+}
@@ -1,21 +1,80 @@
 import { PlayerVisualizerConfig, RequiredConfig } from './types';
+import { DEFAULT_ADAPTER_ID } from '../../shared/adapters/index.js';
+import { DEFAULT_LABEL_FONT } from './fonts';
+
+export const DEFAULT_SESSION = 'default';
+
+// https://host/data → wss://host/live
+function toStreamUrl(dataUrl: string): string {
+  return dataUrl.replace(/^http/, 'ws').replace(/\/data\/?$/, '/live');
+}
+
+// Scopes a relay URL (/data or /live) to one session
+export function withSession(url: string, session: string): string {
+  const scoped = new URL(url);
+  scoped.searchParams.set('session', session);
+  return scoped.toString();
+}
+
+// WebSockets can't carry an Authorization header, so /live takes the token in the query
+export function withToken(url: string, token?: string): string {
+  if (!token) return url;
+  const authed = new URL(url);
+  authed.searchParams.set('token', token);
+  return authed.toString();
+}
 
 export function createConfig(userCfg: Partial<PlayerVisualizerConfig> = {}): RequiredConfig {
+  const dataUrl = userCfg.dataUrl ?? 'https://flowz-iwsdk-dev.onrender.com/data';
   return {
-    dataUrl: userCfg.dataUrl ?? 'https://flowz-iwsdk-dev.onrender.com/data',
+    dataUrl,
+    streamUrl: userCfg.streamUrl ?? toStreamUrl(dataUrl),
+    session: userCfg.session ?? DEFAULT_SESSION,
+    getRelayToken: userCfg.getRelayToken ?? (() => undefined),
+    transport: userCfg.transport ?? 'websocket',
     useMock: userCfg.useMock ?? false,
     updateInterval: userCfg.updateInterval ?? 100,
     playerRadius: userCfg.playerRadius ?? 1,
+    renderMode: userCfg.renderMode ?? 'auto',
+    instancedThreshold: userCfg.instancedThreshold ?? 32,
     playerColor: userCfg.playerColor ?? 0xff0000,
+    colorScheme: userCfg.colorScheme ?? 'speed',
+    colorField: userCfg.colorField ?? 'health',
+    colorFieldRange: userCfg.colorFieldRange ?? [0, 100],
+    deadOpacity: userCfg.deadOpacity ?? 0.3,
+    fadeDuration: userCfg.fadeDuration ?? 1000,
     debugMode: userCfg.debugMode ?? false,
     boundingBox: userCfg.boundingBox,
+    adapter: userCfg.adapter ?? DEFAULT_ADAPTER_ID,
+    transform: userCfg.transform ?? { matrix: [1, 0, 0, 0, 1, 0, 0, 0, 1], offset: [0, 0, 0] },
     showBounds: userCfg.showBounds ?? false,
+    interpolation: userCfg.interpolation ?? true,
+    renderDelay: userCfg.renderDelay ?? 100,
+    maxExtrapolation: userCfg.maxExtrapolation ?? 500,
+    showHeading: userCfg.showHeading ?? true,
+    showLookRay: userCfg.showLookRay ?? false,
+    lookRayLength: userCfg.lookRayLength ?? 10,
     labelHeight: userCfg.labelHeight ?? 5,
     labelFontSize: userCfg.labelFontSize ?? 5,
     labelColor: userCfg.labelColor ?? 0x00ff00,
+    labelFont: userCfg.labelFont ?? DEFAULT_LABEL_FONT,
+    labelBackground: userCfg.labelBackground ?? true,
+    labelBackgroundColor: userCfg.labelBackgroundColor ?? 0x000000,
+    labelBackgroundOpacity: userCfg.labelBackgroundOpacity ?? 0.6,
+    labelDetail: userCfg.labelDetail ?? 'none',
+    teamColors: userCfg.teamColors ?? {},
+    labelScaleWithDistance: userCfg.labelScaleWithDistance ?? true,
+    labelDeclutter: userCfg.labelDeclutter ?? true,
     trailEnabled: userCfg.trailEnabled ?? true,
     trailLength: userCfg.trailLength ?? 40,
     trailOpacity: userCfg.trailOpacity ?? 0.9,
     trailWidth: userCfg.trailWidth ?? 0.4,
+    trailFade: userCfg.trailFade ?? true,
+    trailColor: userCfg.trailColor ?? 'speed',
+    heatmapEnabled: userCfg.heatmapEnabled ?? false,
+    heatmapResolution: userCfg.heatmapResolution ?? 128,
+    heatmapOpacity: userCfg.heatmapOpacity ?? 0.6,
+    heatmapHeight: userCfg.heatmapHeight ?? null,
+    heatmapMaxSamples: userCfg.heatmapMaxSamples ?? 500_000,
   };
 }
\ No newline at end of file
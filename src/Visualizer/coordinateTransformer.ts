@@ -1,14 +1,26 @@
 import * as THREE from 'three';
+import type { MapTransform } from '../types';
 
 export class CoordinateTransformer {
-  private readonly matrix = new THREE.Matrix3().set(
-    0.00646297824, -0.000079977569, 0.000127492645,
-    0.00000378432681, 0.0000487270525, 0.00630588861,
-    0.000169270224, -0.00659015663, 0.000106918946
-  );
-  private readonly offset = new THREE.Vector3(0.73352882, 68.92531057, 8.32454724);
+  private readonly matrix = new THREE.Matrix3();
+  private readonly offset = new THREE.Vector3();
+
+  constructor(transform: MapTransform) {
+    this.matrix.set(...(transform.matrix as Parameters<THREE.Matrix3['set']>));
+    this.offset.fromArray(transform.offset);
+  }
 
   map(pos: THREE.Vector3): THREE.Vector3 {
     return pos.clone().applyMatrix3(this.matrix).add(this.offset);
   }
-}
\ No newline at end of file
+
+  /** Hologram-local units per game unit (the transform's mean scale). */
+  get unitScale(): number {
+    return Math.cbrt(Math.abs(this.matrix.determinant()));
+  }
+
+  // Directions and velocities only take the linear part of the transform
+  mapDirection(dir: THREE.Vector3): THREE.Vector3 {
+    return dir.clone().applyMatrix3(this.matrix);
+  }
+}
@@ -1,16 +1,25 @@
 import { PlayerData } from './types';
+import { TelemetryIssueReporter } from './telemetryIssues';
+import { normalizePacket } from '../../shared/telemetry.js';
 
 export class DataFetcher {
+  /** Whether the most recent request reached the relay. */
+  lastOk = true;
+  /** Adapter the relay last reported for the session. */
+  adapter?: string;
+  private readonly issues = new TelemetryIssueReporter('HTTP poll');
+
   constructor(
-    private dataUrl: "https://flowz-iwsdk-dev.onrender.com",
+    private dataUrl: string,
     private useMock: boolean,
-    private debugMode: boolean = false
+    private debugMode: boolean = false,
+    private getToken: () => string | undefined = () => undefined
   ) {}
 
   private getMock(): PlayerData[] {
     return [
-      { name: 'P1', x: 1983.85, y: -9436.94, z: 2688.65, velocity: { x: 50, y: 0, z: 30 } },
-      { name: 'P2', x: 9215.21, y: 9232.86, z: -11263.97, velocity: { x: -20, y: 40, z: 0 } },
+      { id: 'P1', name: 'P1', position: { x: 1983.85, y: -9436.94, z: 2688.65 }, velocity: { x: 50, y: 0, z: 30 }, angles: { pitch: 0, yaw: 30, roll: 0 }, team: 'Red', health: 100 },
+      { id: 'P2', name: 'P2', position: { x: 9215.21, y: 9232.86, z: -11263.97 }, velocity: { x: -20, y: 40, z: 0 }, angles: { pitch: 15, yaw: 120, roll: 0 }, team: 'Blue', health: 40 },
     ];
   }
 
@@ -18,12 +27,19 @@ export class DataFetcher {
     if (this.useMock) return this.getMock();
 
     try {
-      const res = await fetch(this.dataUrl, { mode: 'cors' });
+      const token = this.getToken();
+      const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+      const res = await fetch(this.dataUrl, { mode: 'cors', headers });
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const json = await res.json();
-      return json.players ?? [];
+      const body = await res.json();
+      const result = normalizePacket(body);
+      this.adapter = typeof body?.adapter === 'string' ? body.adapter : this.adapter;
+      this.issues.report(result);
+      this.lastOk = true;
+      return result.packet?.players ?? [];
     } catch (e) {
       if (this.debugMode) console.error('Data fetch failed', e);
+      this.lastOk = false;
       return [];
     }
   }
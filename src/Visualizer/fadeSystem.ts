@@ -0,0 +1,87 @@
+// src/visualizer/fadeSystem.ts
+import { createComponent, createSystem, Types, type Entity } from "@iwsdk/core";
+import * as THREE from "three";
+
+export const PlayerFade = createComponent("PlayerFade", {
+  objects: { type: Types.Object, default: undefined },    // Extra Object3Ds faded with the entity (label root, trail)
+  opacity: { type: Types.Float32, default: 1 },           // Current factor
+  from: { type: Types.Float32, default: 1 },
+  to: { type: Types.Float32, default: 1 },
+  start: { type: Types.Float32, default: 0 },             // performance.now() when the fade began
+  duration: { type: Types.Float32, default: 1000 },       // ms
+  done: { type: Types.Boolean, default: false },
+  onDone: { type: Types.Object, default: undefined },     // Called once the target opacity is reached
+});
+
+/** Starts a fade to `to` from wherever the entity's opacity is now, replacing any fade in progress. */
+export function fadeTo(entity: Entity, to: number, duration: number, objects: THREE.Object3D[], onDone?: () => void) {
+  const start = performance.now();
+  if (!entity.hasComponent(PlayerFade)) {
+    entity.addComponent(PlayerFade, { objects, to, start, duration, done: false, onDone, opacity: 1, from: 1 });
+    return;
+  }
+  entity.setValue(PlayerFade, "from", entity.getValue(PlayerFade, "opacity") ?? 1);
+  entity.setValue(PlayerFade, "objects", objects);
+  entity.setValue(PlayerFade, "to", to);
+  entity.setValue(PlayerFade, "start", start);
+  entity.setValue(PlayerFade, "duration", duration);
+  entity.setValue(PlayerFade, "done", false);
+  entity.setValue(PlayerFade, "onDone", onDone);
+}
+
+type Faded = THREE.Material & { uniforms?: { opacity?: { value: number } } };
+
+/** Multiplies every material's authored opacity by `factor`; shader materials through their opacity uniform. */
+export function setOpacity(root: THREE.Object3D, factor: number) {
+  root.traverse(child => {
+    const material = (child as THREE.Mesh).material as Faded | Faded[] | undefined;
+    if (!material) return;
+    for (const m of Array.isArray(material) ? material : [material]) {
+      const uniform = m.uniforms?.opacity;
+      m.userData.baseOpacity ??= uniform ? uniform.value : m.opacity;
+      if (uniform) {
+        uniform.value = m.userData.baseOpacity * factor;
+      } else {
+        m.opacity = m.userData.baseOpacity * factor;
+        m.transparent = true;
+      }
+    }
+  });
+}
+
+/**
+ * Eases a player (sphere, heading, label, trail) between opacities, e.g. to the
+ * dead-state opacity or out before it is removed.
+ */
+export class PlayerFadeSystem extends createSystem({
+  fading: { required: [PlayerFade] },
+}) {
+  private finished: (() => void)[] = [];
+
+  update(): void {
+    const now = performance.now();
+
+    this.queries.fading.entities.forEach((entity) => {
+      if (entity.getValue(PlayerFade, "done")) return;
+
+      const from = entity.getValue(PlayerFade, "from") as number;
+      const to = entity.getValue(PlayerFade, "to") as number;
+      const duration = entity.getValue(PlayerFade, "duration") as number;
+      const t = duration > 0 ? Math.min((now - (entity.getValue(PlayerFade, "start") as number)) / duration, 1) : 1;
+      const opacity = from + (to - from) * t;
+      entity.setValue(PlayerFade, "opacity", opacity);
+
+      if (entity.object3D) setOpacity(entity.object3D, opacity);
+      (entity.getValue(PlayerFade, "objects") as THREE.Object3D[] | undefined)?.forEach(object => setOpacity(object, opacity));
+
+      if (t < 1) return;
+      entity.setValue(PlayerFade, "done", true);
+      const onDone = entity.getValue(PlayerFade, "onDone") as (() => void) | undefined;
+      if (onDone) this.finished.push(onDone);
+    });
+
+    // Callbacks may destroy the entity, so they run after the query walk
+    this.finished.forEach(onDone => onDone());
+    this.finished.length = 0;
+  }
+}
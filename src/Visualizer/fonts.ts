@@ -0,0 +1,32 @@
+// src/visualizer/fonts.ts
+import type { Font } from 'three/examples/jsm/loaders/FontLoader.js';
+
+// IWSDK's AssetManifest has no font type, so label typefaces get their own small
+// manifest. Files live in public/fonts and ship with the build, so labels work
+// without internet access (LAN events).
+export const LABEL_FONTS = {
+  helvetiker: 'fonts/helvetiker_regular.typeface.json',
+  helvetikerBold: 'fonts/helvetiker_bold.typeface.json',
+  optimer: 'fonts/optimer_regular.typeface.json',
+  optimerBold: 'fonts/optimer_bold.typeface.json',
+  gentilis: 'fonts/gentilis_regular.typeface.json',
+} as const;
+
+export type LabelFontId = keyof typeof LABEL_FONTS;
+
+export const DEFAULT_LABEL_FONT: LabelFontId = 'helvetiker';
+
+// Shared by every visualizer, so switching maps doesn't parse the font again
+const loaded = new Map<LabelFontId, Promise<Font>>();
+
+export function loadLabelFont(id: LabelFontId): Promise<Font> {
+  let font = loaded.get(id);
+  if (!font) {
+    font = import('three/examples/jsm/loaders/FontLoader.js')
+      .then(({ FontLoader }) => new FontLoader().loadAsync(LABEL_FONTS[id] ?? LABEL_FONTS[DEFAULT_LABEL_FONT]));
+    // A failed load may succeed later (e.g. the dev server restarting)
+    font.catch(() => loaded.delete(id));
+    loaded.set(id, font);
+  }
+  return font;
+}
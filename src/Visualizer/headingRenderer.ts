@@ -0,0 +1,68 @@
+// src/visualizer/headingRenderer.ts
+import * as THREE from 'three';
+
+const FORWARD = new THREE.Vector3(0, 0, 1);
+
+export class HeadingRenderer {
+  constructor(
+    private showHeading: boolean,
+    private showLookRay: boolean,
+    private lookRayLength: number,
+    private playerRadius: number
+  ) {}
+
+  // Cone and ray point along the group's +Z; update() rotates the group
+  create(parent: THREE.Object3D): THREE.Group | undefined {
+    if (!this.showHeading && !this.showLookRay) return undefined;
+
+    const group = new THREE.Group();
+    group.visible = false;        // Until the first sample with angles arrives
+
+    if (this.showHeading) {
+      const r = this.playerRadius;
+      const cone = new THREE.Mesh(
+        new THREE.ConeGeometry(r * 0.6, r * 1.6, 12),
+        new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.85 })
+      );
+      cone.rotation.x = Math.PI / 2;          // ConeGeometry points along +Y
+      cone.position.z = r * 1.6;
+      group.add(cone);
+    }
+
+    if (this.showLookRay) {
+      const ray = new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints([
+          new THREE.Vector3(0, 0, 0),
+          new THREE.Vector3(0, 0, this.lookRayLength),
+        ]),
+        new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.6 })
+      );
+      group.add(ray);
+    }
+
+    parent.add(group);
+    return group;
+  }
+
+  /** Point the heading along a hologram-local direction. */
+  update(heading: THREE.Group | undefined, direction: THREE.Vector3, color: THREE.Color): void {
+    if (!heading || direction.lengthSq() === 0) return;
+
+    heading.quaternion.setFromUnitVectors(FORWARD, direction.clone().normalize());
+    heading.visible = true;
+    heading.traverse(child => {
+      const material = (child as THREE.Mesh).material as THREE.MeshBasicMaterial | undefined;
+      material?.color?.copy(color);
+    });
+  }
+
+  dispose(heading: THREE.Group | undefined): void {
+    if (!heading) return;
+    heading.parent?.remove(heading);
+    heading.traverse(child => {
+      const { geometry, material } = child as THREE.Mesh;
+      geometry?.dispose();
+      (material as THREE.Material | undefined)?.dispose();
+    });
+  }
+}
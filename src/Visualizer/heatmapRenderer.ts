@@ -0,0 +1,268 @@
+import * as THREE from 'three';
+
+export interface HeatmapFilter {
+  players?: string[];             // Player ids to include; empty or missing means everyone
+  window?: number;                // ms back from the playhead or newest sample; missing means all of it
+  minSpeed?: number;              // Game units/s, same scale as the telemetry velocity
+  maxSpeed?: number;
+}
+
+// Transparent → blue → cyan → green → yellow → red
+const RAMP: [number, number, number][] = [
+  [0, 0, 255], [0, 200, 255], [0, 255, 80], [255, 230, 0], [255, 0, 0],
+];
+
+function rampColor(v: number, out: Uint8Array, offset: number) {
+  const x = Math.min(Math.max(v, 0), 1) * (RAMP.length - 1);
+  const i = Math.min(Math.floor(x), RAMP.length - 2);
+  const f = x - i;
+  for (let c = 0; c < 3; c++) out[offset + c] = RAMP[i][c] + (RAMP[i + 1][c] - RAMP[i][c]) * f;
+  out[offset + 3] = v > 0 ? 90 + 165 * v : 0;
+}
+
+function copyInto<T extends Float64Array | Float32Array | Int32Array | Uint16Array>(from: T, to: T): T {
+  to.set(from);
+  return to;
+}
+
+/**
+ * Accumulates every position the visualizer sees into a 2D grid over the map's
+ * bounds (hologram-local x/z) and draws it as a texture on a plane over the city.
+ *
+ * Samples are kept so a filter change can rebuild the grid; new samples and a
+ * sliding time window only touch the cells they land in. A replay's samples are all
+ * added up front, so there the time window ends at the playhead (see setPlayhead).
+ */
+export class HeatmapRenderer {
+  private readonly cols: number;
+  private readonly rows: number;
+  private readonly counts: Float32Array;
+  private readonly pixels: Uint8Array;
+  private readonly texture: THREE.DataTexture;
+  private readonly mesh: THREE.Mesh;
+
+  // Samples, oldest first, as parallel arrays
+  private times = new Float64Array(1024);
+  private cells = new Int32Array(1024);      // Grid index, -1 off the grid
+  private speeds = new Float32Array(1024);
+  private owners = new Uint16Array(1024);    // Index into playerIds
+  private length = 0;
+  private windowStart = 0;                   // First sample inside the time window
+  private windowEnd = 0;                     // One past the last sample inside it
+  private playhead?: number;                 // Sample time the window ends at; newest sample if unset
+
+  private readonly playerIds: string[] = [];
+  private readonly playerIndex = new Map<string, number>();
+  private readonly playerNames = new Map<string, string>();
+
+  private filter: HeatmapFilter = {};
+  private allowedOwners?: Set<number>;
+  private dirty = false;
+
+  constructor(
+    private bounds: THREE.Box3,
+    resolution: number,
+    private maxSamples: number,
+    opacity: number,
+    height: number | null,
+    private cityMesh: THREE.Group
+  ) {
+    const size = bounds.getSize(new THREE.Vector3());
+    const cell = Math.max(size.x, size.z) / resolution;
+    this.cols = Math.max(1, Math.ceil(size.x / cell));
+    this.rows = Math.max(1, Math.ceil(size.z / cell));
+    this.counts = new Float32Array(this.cols * this.rows);
+    this.pixels = new Uint8Array(this.cols * this.rows * 4);
+
+    this.texture = new THREE.DataTexture(this.pixels, this.cols, this.rows, THREE.RGBAFormat);
+    this.texture.magFilter = THREE.LinearFilter;
+    this.texture.needsUpdate = true;
+
+    // Drawn through the buildings so streets between them stay readable; players
+    // and trails render after it and stay on top
+    const geometry = new THREE.PlaneGeometry(size.x, size.z).rotateX(-Math.PI / 2);
+    this.mesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({
+      map: this.texture,
+      transparent: true,
+      opacity,
+      depthTest: false,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    }));
+    const center = bounds.getCenter(new THREE.Vector3());
+    this.mesh.position.set(center.x, height ?? bounds.min.y, center.z);
+    this.mesh.renderOrder = -1;
+    this.mesh.visible = false;
+    cityMesh.add(this.mesh);
+  }
+
+  get visible(): boolean {
+    return this.mesh.visible;
+  }
+
+  set visible(visible: boolean) {
+    this.mesh.visible = visible;
+  }
+
+  get currentFilter(): Readonly<HeatmapFilter> {
+    return this.filter;
+  }
+
+  get sampleCount(): number {
+    return this.length;
+  }
+
+  /** Every player seen so far, id → display name, in first-seen order. */
+  get players(): ReadonlyMap<string, string> {
+    return this.playerNames;
+  }
+
+  /** Record one hologram-local position; `t` is the sample time in ms. */
+  add(id: string, name: string, pos: THREE.Vector3, speed: number, t: number) {
+    if (this.length === this.maxSamples) this.dropOldest();
+    if (this.length === this.times.length) this.grow();
+
+    let owner = this.playerIndex.get(id);
+    if (owner === undefined) {
+      owner = this.playerIds.push(id) - 1;
+      this.playerIndex.set(id, owner);
+      if (this.filter.players?.includes(id)) this.allowedOwners?.add(owner);
+    }
+    this.playerNames.set(id, name);
+
+    const i = this.length++;
+    this.times[i] = t;
+    this.cells[i] = this.cellAt(pos);
+    this.speeds[i] = speed;
+    this.owners[i] = owner;
+
+    this.slideWindow();
+  }
+
+  /**
+   * End the time window at `t` (a replay's playhead, in sample time) instead of at the
+   * newest sample; undefined goes back to that. Without a window every sample counts.
+   */
+  setPlayhead(t: number | undefined) {
+    if (t === this.playhead) return;
+    // The window's edges only slide forward, so going back (a seek, a loop) recounts
+    const back = t === undefined || this.playhead === undefined || t < this.playhead;
+    this.playhead = t;
+    if (this.filter.window === undefined) return;
+    if (back) this.rebuild();
+    else this.slideWindow();
+  }
+
+  setFilter(filter: HeatmapFilter) {
+    this.filter = { ...filter };
+    this.allowedOwners = filter.players?.length
+      ? new Set(filter.players.map(id => this.playerIndex.get(id)).filter((i): i is number => i !== undefined))
+      : undefined;
+    this.rebuild();
+  }
+
+  clear() {
+    this.length = 0;
+    this.windowStart = 0;
+    this.windowEnd = 0;
+    this.playerIds.length = 0;
+    this.playerIndex.clear();
+    this.playerNames.clear();
+    this.allowedOwners = this.filter.players?.length ? new Set() : undefined;
+    this.counts.fill(0);
+    this.dirty = true;
+  }
+
+  /** Re-colour the texture if anything was counted since the last call. */
+  flush() {
+    if (!this.dirty) return;
+    this.dirty = false;
+
+    let max = 0;
+    for (let i = 0; i < this.counts.length; i++) max = Math.max(max, this.counts[i]);
+
+    // Log scale so a spawn point doesn't wash out everything else
+    const scale = max > 0 ? 1 / Math.log1p(max) : 0;
+    for (let i = 0; i < this.counts.length; i++) {
+      rampColor(Math.log1p(this.counts[i]) * scale, this.pixels, i * 4);
+    }
+    this.texture.needsUpdate = true;
+  }
+
+  dispose() {
+    this.cityMesh.remove(this.mesh);
+    this.mesh.geometry.dispose();
+    (this.mesh.material as THREE.Material).dispose();
+    this.texture.dispose();
+  }
+
+  // Row 0 of the texture is the far (+z) edge once the plane is laid flat
+  private cellAt(pos: THREE.Vector3): number {
+    const size = this.bounds.getSize(new THREE.Vector3());
+    const col = Math.floor((pos.x - this.bounds.min.x) / size.x * this.cols);
+    const row = Math.floor((this.bounds.max.z - pos.z) / size.z * this.rows);
+    if (col < 0 || col >= this.cols || row < 0 || row >= this.rows) return -1;
+    return row * this.cols + col;
+  }
+
+  // Everything but the time window, which slideWindow() handles by index
+  private passes(i: number): boolean {
+    const { minSpeed, maxSpeed } = this.filter;
+    if (this.cells[i] < 0) return false;
+    if (this.allowedOwners && !this.allowedOwners.has(this.owners[i])) return false;
+    if (minSpeed !== undefined && this.speeds[i] < minSpeed) return false;
+    if (maxSpeed !== undefined && this.speeds[i] > maxSpeed) return false;
+    return true;
+  }
+
+  private count(i: number, amount: number) {
+    this.counts[this.cells[i]] += amount;
+    this.dirty = true;
+  }
+
+  // Count samples that reached the window's end and uncount those that fell out of its start
+  private slideWindow() {
+    const { window } = this.filter;
+    if (this.length === 0) return;
+
+    const to = window === undefined ? Infinity : this.playhead ?? Infinity;
+    while (this.windowEnd < this.length && this.times[this.windowEnd] <= to) {
+      if (this.passes(this.windowEnd)) this.count(this.windowEnd, 1);
+      this.windowEnd++;
+    }
+    if (window === undefined) return;
+
+    const from = (this.playhead ?? this.times[this.length - 1]) - window;
+    while (this.windowStart < this.windowEnd && this.times[this.windowStart] < from) {
+      if (this.passes(this.windowStart)) this.count(this.windowStart, -1);
+      this.windowStart++;
+    }
+  }
+
+  private rebuild() {
+    this.counts.fill(0);
+    this.windowStart = 0;
+    this.windowEnd = 0;
+    this.slideWindow();
+    this.dirty = true;
+  }
+
+  private grow() {
+    const capacity = Math.min(this.times.length * 2, this.maxSamples);
+    this.times = copyInto(this.times, new Float64Array(capacity));
+    this.cells = copyInto(this.cells, new Int32Array(capacity));
+    this.speeds = copyInto(this.speeds, new Float32Array(capacity));
+    this.owners = copyInto(this.owners, new Uint16Array(capacity));
+  }
+
+  // At the cap the oldest half goes; cheaper than a ring buffer for the rebuild path
+  private dropOldest() {
+    const drop = this.length >> 1;
+    this.times.copyWithin(0, drop, this.length);
+    this.cells.copyWithin(0, drop, this.length);
+    this.speeds.copyWithin(0, drop, this.length);
+    this.owners.copyWithin(0, drop, this.length);
+    this.length -= drop;
+    this.rebuild();
+  }
+}
@@ -0,0 +1,286 @@
+// src/visualizer/instancedPlayers.ts
+import * as THREE from 'three';
+import type { Entity, World } from '@iwsdk/core';
+import type { EntityKind } from '../../shared/telemetry.js';
+import { LabelAtlas, LABEL_CELL_HEIGHT, LABEL_CELL_WIDTH } from './labelAtlas';
+import { MotionBuffer } from './motionBuffer';
+import { PlayerInstances } from './interpolationSystem';
+import type { TrailRibbon } from './trailRenderer';
+import { MAX_SCALE, MIN_SCALE, REFERENCE_DISTANCE } from './billboarding';
+
+const FORWARD = new THREE.Vector3(0, 0, 1);
+const ONE = new THREE.Vector3(1, 1, 1);
+const INITIAL_CAPACITY = 64;
+
+export interface InstancedPlayer {
+  name: string;
+  kind: EntityKind;
+  motion: MotionBuffer;
+  position: THREE.Vector3;        // Hologram-local; sampled from motion when interpolating
+  color: THREE.Color;
+  heading?: THREE.Vector3;        // Hologram-local look direction, unit length
+  label?: THREE.Vector4;          // Atlas rect; missing when the atlas is full
+  labelColor: number;
+  trail?: TrailRibbon;
+  lastSampleTime?: number;
+  dead?: boolean;
+}
+
+// Labels face the viewer in view space, so they work per eye in XR and need no
+// billboarding pass; their size is in world units and follows the same distance
+// scaling as LabelBillboardSystem
+const labelVertexShader = /* glsl */ `
+  attribute vec4 labelRect;
+  uniform vec2 size;
+  uniform float scaleWithDistance;
+  varying vec2 vUv;
+
+  void main() {
+    vUv = labelRect.xy + uv * labelRect.zw;
+    vec4 mvPosition = modelViewMatrix * instanceMatrix * vec4(0.0, 0.0, 0.0, 1.0);
+    float scale = mix(1.0, clamp(-mvPosition.z / ${REFERENCE_DISTANCE.toFixed(1)}, ${MIN_SCALE.toFixed(1)}, ${MAX_SCALE.toFixed(1)}), scaleWithDistance);
+    mvPosition.xy += position.xy * size * scale;
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const labelFragmentShader = /* glsl */ `
+  uniform sampler2D atlas;
+  varying vec2 vUv;
+
+  void main() {
+    gl_FragColor = texture2D(atlas, vUv);
+    if (gl_FragColor.a < 0.05) discard;
+    #include <colorspace_fragment>
+  }
+`;
+
+// An InstancedMesh refilled from scratch every frame; grows by doubling
+class InstanceBatch {
+  mesh: THREE.InstancedMesh;
+  private count = 0;
+  private rects?: THREE.InstancedBufferAttribute;
+
+  constructor(
+    private geometry: THREE.BufferGeometry,
+    private material: THREE.Material,
+    private parent: THREE.Object3D,
+    private withRects = false
+  ) {
+    this.mesh = this.allocate(INITIAL_CAPACITY);
+  }
+
+  begin() {
+    this.count = 0;
+  }
+
+  push(matrix: THREE.Matrix4, color?: THREE.Color, rect?: THREE.Vector4) {
+    if (this.count === this.mesh.instanceMatrix.count) {
+      this.mesh = this.allocate(this.count * 2);
+    }
+    this.mesh.setMatrixAt(this.count, matrix);
+    if (color) this.mesh.setColorAt(this.count, color);
+    if (rect) this.rects!.setXYZW(this.count, rect.x, rect.y, rect.z, rect.w);
+    this.count++;
+  }
+
+  end() {
+    this.mesh.count = this.count;
+    this.mesh.instanceMatrix.needsUpdate = true;
+    if (this.mesh.instanceColor) this.mesh.instanceColor.needsUpdate = true;
+    if (this.rects) this.rects.needsUpdate = true;
+  }
+
+  dispose() {
+    this.parent.remove(this.mesh);
+    this.mesh.dispose();
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+
+  // Instances written this frame are copied across so a mid-frame grow loses nothing
+  private allocate(capacity: number): THREE.InstancedMesh {
+    const previous = this.mesh as THREE.InstancedMesh | undefined;
+    const mesh = new THREE.InstancedMesh(this.geometry, this.material, capacity);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    // Instances move every frame, so a cached bounding sphere would be wrong
+    mesh.frustumCulled = false;
+
+    if (previous) {
+      mesh.renderOrder = previous.renderOrder;
+      mesh.instanceMatrix.array.set(previous.instanceMatrix.array);
+      if (previous.instanceColor) {
+        mesh.setColorAt(0, new THREE.Color());
+        mesh.instanceColor!.array.set(previous.instanceColor.array);
+      }
+      this.parent.remove(previous);
+      previous.dispose();
+    }
+
+    if (this.withRects) {
+      const rects = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 4), 4).setUsage(THREE.DynamicDrawUsage);
+      if (this.rects) rects.array.set(this.rects.array);
+      this.rects = rects;
+      this.geometry.setAttribute('labelRect', rects);
+    }
+
+    this.parent.add(mesh);
+    return mesh;
+  }
+}
+
+/**
+ * Renderer for large lobbies: one InstancedMesh per entity kind for bodies,
+ * one for heading cones and one for name labels drawn from a shared atlas.
+ * Draw calls stay constant however many players there are.
+ */
+export class InstancedPlayers {
+  private readonly players = new Map<string, InstancedPlayer>();
+  private readonly root = new THREE.Group();
+  private readonly entity: Entity;
+  private readonly atlas: LabelAtlas;
+  private readonly bodies = new Map<EntityKind, InstanceBatch>();
+  private readonly headings?: InstanceBatch;
+  private readonly labels: InstanceBatch;
+  private readonly labelOffset: number;
+
+  private readonly matrix = new THREE.Matrix4();
+  private readonly quaternion = new THREE.Quaternion();
+  private readonly labelPos = new THREE.Vector3();
+
+  constructor(
+    world: World,
+    private cityMesh: THREE.Group,
+    private playerRadius: number,
+    labelFontSize: number,
+    private labelColor: number,
+    labelScaleWithDistance: boolean,
+    showHeading: boolean,
+    private motion?: { renderDelay: number; maxExtrapolation: number }
+  ) {
+    this.entity = world.createTransformEntity(this.root);
+    cityMesh.add(this.entity.object3D!);
+    this.entity.addComponent(PlayerInstances, { renderer: this });
+
+    if (showHeading) {
+      const r = playerRadius;
+      const cone = new THREE.ConeGeometry(r * 0.6, r * 1.6, 12).rotateX(Math.PI / 2).translate(0, 0, r * 1.6);
+      this.headings = new InstanceBatch(cone, new THREE.MeshBasicMaterial({ transparent: true, opacity: 0.85 }), this.root);
+    }
+
+    this.atlas = new LabelAtlas(labelColor);
+    const plane = new THREE.PlaneGeometry(1, 1).translate(0, 0.5, 0);
+    const labelMaterial = new THREE.ShaderMaterial({
+      vertexShader: labelVertexShader,
+      fragmentShader: labelFragmentShader,
+      uniforms: {
+        atlas: { value: this.atlas.texture },
+        size: { value: new THREE.Vector2(labelFontSize * LABEL_CELL_WIDTH / LABEL_CELL_HEIGHT, labelFontSize) },
+        scaleWithDistance: { value: labelScaleWithDistance ? 1 : 0 },
+      },
+      transparent: true,
+      depthTest: false,
+    });
+    this.labels = new InstanceBatch(plane, labelMaterial, this.root, true);
+    this.labels.mesh.renderOrder = 5;
+    this.labelOffset = playerRadius * 1.5;
+  }
+
+  get(id: string): InstancedPlayer | undefined {
+    return this.players.get(id);
+  }
+
+  create(id: string, name: string, position: THREE.Vector3, kind: EntityKind = 'player', labelColor = this.labelColor): InstancedPlayer {
+    const player: InstancedPlayer = {
+      name,
+      kind,
+      motion: new MotionBuffer(),
+      position: position.clone(),
+      color: new THREE.Color(),
+      label: this.atlas.acquire(name, labelColor),
+      labelColor,
+    };
+    this.players.set(id, player);
+    return player;
+  }
+
+  /** Redraws the player's label in another colour, e.g. after a team change. */
+  relabel(player: InstancedPlayer, labelColor: number) {
+    if (player.label) this.atlas.release(player.name, player.labelColor);
+    player.label = this.atlas.acquire(player.name, labelColor);
+    player.labelColor = labelColor;
+  }
+
+  /** Returns the removed player so the caller can release what it attached (trails). */
+  remove(id: string): InstancedPlayer | undefined {
+    const player = this.players.get(id);
+    if (!player) return undefined;
+    if (player.label) this.atlas.release(player.name, player.labelColor);
+    this.players.delete(id);
+    return player;
+  }
+
+  forEach(callback: (player: InstancedPlayer, id: string) => void) {
+    this.players.forEach(callback);
+  }
+
+  /** Called every frame by PlayerInterpolationSystem. */
+  update(now: number) {
+    this.bodies.forEach(batch => batch.begin());
+    this.headings?.begin();
+    this.labels.begin();
+
+    this.players.forEach(player => {
+      if (this.motion) {
+        player.motion.sample(now - this.motion.renderDelay, this.motion.maxExtrapolation, player.position);
+      }
+
+      this.matrix.makeTranslation(player.position);
+      this.bodyBatch(player.kind).push(this.matrix, player.color);
+
+      if (this.headings && player.heading) {
+        this.quaternion.setFromUnitVectors(FORWARD, player.heading);
+        this.matrix.compose(player.position, this.quaternion, ONE);
+        this.headings.push(this.matrix, player.color);
+      }
+
+      if (player.label) {
+        this.labelPos.copy(player.position).setY(player.position.y + this.labelOffset);
+        this.matrix.makeTranslation(this.labelPos);
+        this.labels.push(this.matrix, undefined, player.label);
+      }
+    });
+
+    this.bodies.forEach(batch => batch.end());
+    this.headings?.end();
+    this.labels.end();
+  }
+
+  clear() {
+    [...this.players.keys()].forEach(id => this.remove(id));
+  }
+
+  dispose() {
+    this.clear();
+    this.bodies.forEach(batch => batch.dispose());
+    this.headings?.dispose();
+    this.labels.dispose();
+    this.atlas.dispose();
+    this.cityMesh.remove(this.entity.object3D!);
+    this.entity.destroy?.();
+  }
+
+  // Same shapes as PlayerEntity: players spheres, NPCs smaller spheres, objectives octahedra
+  private bodyBatch(kind: EntityKind): InstanceBatch {
+    let batch = this.bodies.get(kind);
+    if (!batch) {
+      const r = this.playerRadius;
+      const geometry = kind === 'npc' ? new THREE.SphereGeometry(r * 0.6)
+        : kind === 'objective' ? new THREE.OctahedronGeometry(r * 1.2)
+        : new THREE.SphereGeometry(r);
+      batch = new InstanceBatch(geometry, new THREE.MeshBasicMaterial(), this.root);
+      this.bodies.set(kind, batch);
+    }
+    return batch;
+  }
+}
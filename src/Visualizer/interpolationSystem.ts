@@ -0,0 +1,48 @@
+// src/visualizer/interpolationSystem.ts
+import { createComponent, createSystem, Types } from "@iwsdk/core";
+import * as THREE from "three";
+import { MotionBuffer } from "./motionBuffer";
+import type { InstancedPlayers } from "./instancedPlayers";
+
+export const PlayerMotion = createComponent("PlayerMotion", {
+  buffer: { type: Types.Object, default: undefined },
+  renderDelay: { type: Types.Float32, default: 100 },
+  maxExtrapolation: { type: Types.Float32, default: 500 },
+});
+
+// One per visualizer in instanced mode; the renderer samples all of its players itself
+export const PlayerInstances = createComponent("PlayerInstances", {
+  renderer: { type: Types.Object, default: undefined },
+});
+
+/**
+ * Renders each player slightly in the past so there are always two samples
+ * to interpolate between; falls back to velocity extrapolation when packets are late.
+ */
+export class PlayerInterpolationSystem extends createSystem({
+  players: { required: [PlayerMotion] },
+  instances: { required: [PlayerInstances] },
+}) {
+  private tmp = new THREE.Vector3();
+
+  update(): void {
+    const now = performance.now();
+
+    this.queries.players.entities.forEach((entity) => {
+      const object = entity.object3D;
+      const buffer = entity.getValue(PlayerMotion, "buffer") as MotionBuffer | undefined;
+      if (!object || !buffer) return;
+
+      const renderDelay = entity.getValue(PlayerMotion, "renderDelay") as number;
+      const maxExtrapolation = entity.getValue(PlayerMotion, "maxExtrapolation") as number;
+
+      if (buffer.sample(now - renderDelay, maxExtrapolation, this.tmp)) {
+        object.position.copy(this.tmp);
+      }
+    });
+
+    this.queries.instances.entities.forEach((entity) => {
+      (entity.getValue(PlayerInstances, "renderer") as InstancedPlayers | undefined)?.update(now);
+    });
+  }
+}
@@ -0,0 +1,108 @@
+// src/visualizer/labelAtlas.ts
+import * as THREE from 'three';
+
+const ATLAS_SIZE = 2048;
+export const LABEL_CELL_WIDTH = 256;
+export const LABEL_CELL_HEIGHT = 64;
+
+const COLUMNS = ATLAS_SIZE / LABEL_CELL_WIDTH;
+const ROWS = ATLAS_SIZE / LABEL_CELL_HEIGHT;
+
+interface Cell {
+  index: number;
+  refs: number;
+}
+
+/**
+ * One canvas texture holding every name label, one fixed-size cell per distinct
+ * text and colour. Players with the same name and team share a cell; cells are
+ * reused once no player refers to them. Rects are [u, v, width, height] in texture space.
+ */
+export class LabelAtlas {
+  readonly texture: THREE.CanvasTexture;
+  private readonly ctx: CanvasRenderingContext2D;
+  private readonly cells = new Map<string, Cell>();
+  private readonly free: number[] = [];
+  private warnedFull = false;
+
+  constructor(private labelColor: number) {
+    const canvas = document.createElement('canvas');
+    canvas.width = ATLAS_SIZE;
+    canvas.height = ATLAS_SIZE;
+    this.ctx = canvas.getContext('2d')!;
+
+    this.texture = new THREE.CanvasTexture(canvas);
+    this.texture.colorSpace = THREE.SRGBColorSpace;
+    // Re-uploading mipmaps for every new name isn't worth it at label sizes
+    this.texture.generateMipmaps = false;
+    this.texture.minFilter = THREE.LinearFilter;
+
+    for (let i = COLUMNS * ROWS - 1; i >= 0; i--) this.free.push(i);
+  }
+
+  /** Rect of the cell showing `text`, drawing it if needed; undefined when the atlas is full. */
+  acquire(text: string, color = this.labelColor): THREE.Vector4 | undefined {
+    const key = `${color}:${text}`;
+    let cell = this.cells.get(key);
+    if (!cell) {
+      const index = this.free.pop();
+      if (index === undefined) {
+        if (!this.warnedFull) console.warn(`Label atlas full (${COLUMNS * ROWS} labels); new names are not drawn`);
+        this.warnedFull = true;
+        return undefined;
+      }
+      cell = { index, refs: 0 };
+      this.cells.set(key, cell);
+      this.draw(index, text, color);
+    }
+    cell.refs++;
+    return this.rect(cell.index);
+  }
+
+  release(text: string, color = this.labelColor) {
+    const key = `${color}:${text}`;
+    const cell = this.cells.get(key);
+    if (!cell || --cell.refs > 0) return;
+    this.cells.delete(key);
+    this.free.push(cell.index);
+  }
+
+  dispose() {
+    this.texture.dispose();
+  }
+
+  private draw(index: number, text: string, color: number) {
+    const { ctx } = this;
+    const x = (index % COLUMNS) * LABEL_CELL_WIDTH;
+    const y = Math.floor(index / COLUMNS) * LABEL_CELL_HEIGHT;
+
+    ctx.clearRect(x, y, LABEL_CELL_WIDTH, LABEL_CELL_HEIGHT);
+    ctx.fillStyle = 'rgba(0,0,0,0.7)';
+    ctx.fillRect(x, y, LABEL_CELL_WIDTH, LABEL_CELL_HEIGHT);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, LABEL_CELL_WIDTH, LABEL_CELL_HEIGHT);
+    ctx.clip();
+    ctx.font = `bold ${LABEL_CELL_HEIGHT * 0.6}px Arial`;
+    ctx.fillStyle = `#${color.toString(16).padStart(6, '0')}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, x + LABEL_CELL_WIDTH / 2, y + LABEL_CELL_HEIGHT / 2, LABEL_CELL_WIDTH - 8);
+    ctx.restore();
+
+    this.texture.needsUpdate = true;
+  }
+
+  // CanvasTexture is flipped, so canvas row 0 is the top of texture space
+  private rect(index: number): THREE.Vector4 {
+    const column = index % COLUMNS;
+    const row = Math.floor(index / COLUMNS);
+    return new THREE.Vector4(
+      column / COLUMNS,
+      1 - (row + 1) / ROWS,
+      1 / COLUMNS,
+      1 / ROWS
+    );
+  }
+}
@@ -2,87 +2,270 @@
 
 import * as THREE from 'three';
 import { TextGeometry } from 'three/examples/jsm/geometries/TextGeometry.js';
+import type { Font } from 'three/examples/jsm/loaders/FontLoader.js';
+import { LabelFontId, loadLabelFont } from './fonts';
+
+const DETAIL_SCALE = 0.6;         // Secondary line size relative to the name
+const DETAIL_COLOR = 0xd4d4d8;
+const PADDING = 0.3;              // Plate margin, in font sizes
+
+// The detail line (speed changes every tick) is drawn on a canvas rather than extruded,
+// so an update redraws a texture instead of building a new geometry
+const DETAIL_CANVAS_WIDTH = 512;
+const DETAIL_CANVAS_HEIGHT = 64;
+const DETAIL_FONT_PX = 48;
+const DETAIL_FONT = `${DETAIL_FONT_PX}px sans-serif`;
+
+export interface LabelContent {
+  title: string;                  // Player name
+  detail?: string;                // Secondary line (speed, health…)
+  color?: number;                 // Name colour, e.g. from teamColors; defaults to labelColor
+}
+
+/** A player's name label; update() only rebuilds the parts whose content changed. */
+export interface NameLabel {
+  readonly object: THREE.Object3D;
+  readonly content: Readonly<LabelContent>;
+  readonly width: number;         // World size at scale 1, for LabelBillboard overlap tests
+  readonly height: number;
+  update(content: LabelContent): void;
+  dispose(): void;
+}
+
+interface PlateStyle {
+  color: number;
+  opacity: number;
+}
+
+// Bottom-centred on the label root: the plate's lower edge sits at y = 0
+class TextLabel implements NameLabel {
+  readonly object = new THREE.Group();
+  content: LabelContent = { title: '' };
+  width = 0;
+  height = 0;
+
+  private readonly title: THREE.Mesh;
+  private readonly detail: THREE.Mesh;
+  private readonly plate?: THREE.Mesh;
+  private readonly detailCtx: CanvasRenderingContext2D;
+  private readonly detailTexture: THREE.CanvasTexture;
+  private detailWidth = 0;
+
+  constructor(
+    private font: Font,
+    private size: number,
+    private defaultColor: number,
+    plateStyle: PlateStyle | undefined,
+    content: LabelContent
+  ) {
+    this.title = new THREE.Mesh(new THREE.BufferGeometry(), new THREE.MeshBasicMaterial({ color: defaultColor }));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = DETAIL_CANVAS_WIDTH;
+    canvas.height = DETAIL_CANVAS_HEIGHT;
+    this.detailCtx = canvas.getContext('2d')!;
+    this.detailTexture = new THREE.CanvasTexture(canvas);
+    this.detailTexture.colorSpace = THREE.SRGBColorSpace;
+    // Lower-left origin, like the title's text geometry
+    this.detail = new THREE.Mesh(
+      new THREE.PlaneGeometry(1, 1).translate(0.5, 0.5, 0),
+      new THREE.MeshBasicMaterial({ map: this.detailTexture, transparent: true, depthWrite: false })
+    );
+    this.detail.visible = false;
+    this.object.add(this.title, this.detail);
+
+    if (plateStyle) {
+      this.plate = new THREE.Mesh(
+        new THREE.PlaneGeometry(1, 1),
+        new THREE.MeshBasicMaterial({ color: plateStyle.color, transparent: true, opacity: plateStyle.opacity, depthWrite: false })
+      );
+      this.plate.position.z = -size * 0.05;
+      this.object.add(this.plate);
+    }
+
+    this.update(content);
+  }
+
+  update(content: LabelContent) {
+    const titleChanged = content.title !== this.content.title;
+    const detailChanged = (content.detail ?? '') !== (this.content.detail ?? '');
+
+    const detailWidth = this.detailWidth;
+    if (titleChanged) this.setText(this.title, content.title, this.size);
+    if (detailChanged) this.drawDetail(content.detail ?? '');
+    (this.title.material as THREE.MeshBasicMaterial).color.setHex(content.color ?? this.defaultColor);
+
+    this.content = { ...content };
+    if (titleChanged || this.detailWidth !== detailWidth) this.layout();
+  }
+
+  dispose() {
+    this.object.removeFromParent();
+    for (const mesh of [this.title, this.detail, this.plate]) {
+      mesh?.geometry.dispose();
+      (mesh?.material as THREE.Material | undefined)?.dispose();
+    }
+    this.detailTexture.dispose();
+  }
+
+  private setText(mesh: THREE.Mesh, text: string, size: number) {
+    mesh.geometry.dispose();
+    mesh.geometry = text
+      ? new TextGeometry(text, { font: this.font, size, depth: size * 0.1 })
+      : new THREE.BufferGeometry();
+    mesh.geometry.computeBoundingBox();
+  }
+
+  // Only the used part of the canvas is mapped, so the plane is as wide as the text
+  private drawDetail(text: string) {
+    const ctx = this.detailCtx;
+    ctx.clearRect(0, 0, DETAIL_CANVAS_WIDTH, DETAIL_CANVAS_HEIGHT);
+    ctx.font = DETAIL_FONT;
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = toCss(DETAIL_COLOR);
+    const pixels = Math.min(Math.ceil(ctx.measureText(text).width), DETAIL_CANVAS_WIDTH);
+    ctx.fillText(text, 0, DETAIL_CANVAS_HEIGHT / 2, DETAIL_CANVAS_WIDTH);
+
+    this.detailTexture.repeat.x = pixels / DETAIL_CANVAS_WIDTH;
+    this.detailTexture.needsUpdate = true;
+    this.detail.visible = pixels > 0;
+
+    const height = this.size * DETAIL_SCALE * DETAIL_CANVAS_HEIGHT / DETAIL_FONT_PX;
+    this.detailWidth = height * pixels / DETAIL_CANVAS_HEIGHT;
+    this.detail.scale.set(Math.max(this.detailWidth, 1e-6), height, 1);
+  }
+
+  private layout() {
+    const pad = this.size * PADDING;
+    const widthOf = (mesh: THREE.Mesh) => {
+      const box = mesh.geometry.boundingBox;
+      return box && !box.isEmpty() ? box.max.x - box.min.x : 0;
+    };
+    const titleWidth = widthOf(this.title);
+    const detailWidth = this.detailWidth;
+    const detailHeight = detailWidth > 0 ? this.size * DETAIL_SCALE * 1.5 : 0;
+
+    this.detail.position.set(-detailWidth / 2, pad, 0);
+    this.title.position.set(-titleWidth / 2, pad + detailHeight, 0);
+
+    this.width = Math.max(titleWidth, detailWidth) + pad * 2;
+    this.height = detailHeight + this.size + pad * 2;
+    if (this.plate) {
+      this.plate.scale.set(this.width, this.height, 1);
+      this.plate.position.set(0, this.height / 2, this.plate.position.z);
+    }
+  }
+}
+
+const CANVAS_WIDTH = 512;
+const CANVAS_HEIGHT = 128;
+
+// Used until the font has loaded, or if it can't be; redraws its canvas in place
+class SpriteLabel implements NameLabel {
+  readonly object: THREE.Sprite;
+  content: LabelContent = { title: '' };
+  readonly width: number;
+  readonly height: number;
+
+  private readonly ctx: CanvasRenderingContext2D;
+  private readonly texture: THREE.CanvasTexture;
+
+  constructor(
+    size: number,
+    private defaultColor: number,
+    private plateStyle: PlateStyle | undefined,
+    content: LabelContent
+  ) {
+    const canvas = document.createElement('canvas');
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT;
+    this.ctx = canvas.getContext('2d')!;
+    this.texture = new THREE.CanvasTexture(canvas);
+    this.texture.colorSpace = THREE.SRGBColorSpace;
+
+    this.object = new THREE.Sprite(new THREE.SpriteMaterial({ map: this.texture, transparent: true, depthTest: false }));
+    this.object.center.set(0.5, 0);
+    this.width = size * 8;
+    this.height = size * 2;
+    this.object.scale.set(this.width, this.height, 1);
+
+    this.update(content);
+  }
+
+  update(content: LabelContent) {
+    const changed = content.title !== this.content.title
+      || content.detail !== this.content.detail
+      || content.color !== this.content.color;
+    this.content = { ...content };
+    if (changed) this.draw();
+  }
+
+  dispose() {
+    this.object.removeFromParent();
+    this.texture.dispose();
+    this.object.material.dispose();
+  }
+
+  private draw() {
+    const { ctx } = this;
+    const { title, detail, color } = this.content;
+    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    if (this.plateStyle) {
+      ctx.globalAlpha = this.plateStyle.opacity;
+      ctx.fillStyle = toCss(this.plateStyle.color);
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      ctx.globalAlpha = 1;
+    }
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = 'bold 52px Arial';
+    ctx.fillStyle = toCss(color ?? this.defaultColor);
+    ctx.fillText(title, CANVAS_WIDTH / 2, detail ? CANVAS_HEIGHT * 0.36 : CANVAS_HEIGHT / 2, CANVAS_WIDTH - 16);
+    if (detail) {
+      ctx.font = '32px Arial';
+      ctx.fillStyle = toCss(DETAIL_COLOR);
+      ctx.fillText(detail, CANVAS_WIDTH / 2, CANVAS_HEIGHT * 0.78, CANVAS_WIDTH - 16);
+    }
+    this.texture.needsUpdate = true;
+  }
+}
+
+function toCss(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`;
+}
 
 export class LabelRenderer {
-  private font: any = null;
+  private font: Font | null = null;
 
   constructor(
     private labelFontSize: number,
     private labelColor: number,
-    private labelHeight: number
+    private labelFont: LabelFontId,
+    private labelBackground: boolean,
+    private labelBackgroundColor: number,
+    private labelBackgroundOpacity: number
   ) {}
 
+  /** Load the bundled face; labels made before it resolves are sprites until recreated. */
   async loadFont(): Promise<void> {
     try {
-      const { FontLoader } = await import('three/examples/jsm/loaders/FontLoader.js');
-      this.font = await new FontLoader().loadAsync(
-        'https://threejs.org/examples/fonts/helvetiker_regular.typeface.json'
-      );
+      this.font = await loadLabelFont(this.labelFont);
     } catch (e) {
-      console.warn('Font failed → using sprite labels', e);
+      console.warn(`Font "${this.labelFont}" failed → using sprite labels`, e);
       this.font = null;
     }
   }
 
-  // Accept Group or any Object3D (sphere or labelGroup)
-  createLabel(parent: THREE.Object3D, name: string): THREE.Mesh | THREE.Sprite | undefined {
-  // Automatically calculate perfect height from the sphere's radius
-  let sphereRadius = 1;
-  
-  // Try to find the actual sphere radius from the player's mesh
-  if (parent.parent && 'geometry' in parent.parent && (parent.parent as THREE.Mesh).geometry instanceof THREE.SphereGeometry) {
-    sphereRadius = ((parent.parent as THREE.Mesh).geometry as THREE.SphereGeometry).parameters.radius;
-  }
-
-  const h = sphereRadius - 1.8;  // ← Perfect offset: 1.8 units below sphere surface
-
-  if (this.font) {
-    // 3D Text
-    const geom = new TextGeometry(name, {
-      font: this.font,
-      size: this.labelFontSize,
-      depth: 0.05,
-    });
-    geom.computeBoundingBox();
-    const width = geom.boundingBox!.max.x - geom.boundingBox!.min.x;
-
-    const labelMesh = new THREE.Mesh(
-      geom,
-      new THREE.MeshBasicMaterial({ color: this.labelColor })
-    );
-    labelMesh.position.set(-width / 2, h, 0);
-    parent.add(labelMesh);
-    return labelMesh;
-  } else {
-    // Sprite fallback — PERFECT SIZE & POSITION
-    const canvas = document.createElement('canvas');
-    const size = 256;
-    canvas.width = size;
-    canvas.height = size;
-    const ctx = canvas.getContext('2d')!;
-    
-    ctx.fillStyle = 'rgba(0,0,0,0.7)';
-    ctx.fillRect(0, 0, size, size);
-    
-    ctx.font = `bold ${this.labelFontSize * 18}px Arial`;
-    ctx.fillStyle = `#${this.labelColor.toString(16).padStart(6, '0')}`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText(name, size / 2, size / 2);
-
-    const texture = new THREE.CanvasTexture(canvas);
-    const material = new THREE.SpriteMaterial({
-      map: texture,
-      transparent: true,
-      depthTest: false,
-    });
-
-    const sprite = new THREE.Sprite(material);
-    sprite.center.set(0.5, 0);
-    sprite.scale.set(this.labelFontSize * 3, this.labelFontSize * 3, 1);
-    sprite.position.y = h;
-    parent.add(sprite);
-    return sprite;
+  createLabel(parent: THREE.Object3D, content: LabelContent): NameLabel {
+    const plate = this.labelBackground
+      ? { color: this.labelBackgroundColor, opacity: this.labelBackgroundOpacity }
+      : undefined;
+    const label = this.font
+      ? new TextLabel(this.font, this.labelFontSize, this.labelColor, plate, content)
+      : new SpriteLabel(this.labelFontSize, this.labelColor, plate, content);
+    parent.add(label.object);
+    return label;
   }
 }
-}
\ No newline at end of file
@@ -0,0 +1,56 @@
+// src/visualizer/motionBuffer.ts
+import * as THREE from 'three';
+
+interface MotionSample {
+  time: number;                   // Local receive time (performance.now, ms)
+  position: THREE.Vector3;        // Hologram-local position
+  velocity: THREE.Vector3;        // Hologram-local units per second
+}
+
+const CAPACITY = 16;
+
+// Short timestamped history of one player's telemetry, sampled by PlayerInterpolationSystem
+export class MotionBuffer {
+  private samples: MotionSample[] = [];
+
+  get isEmpty(): boolean {
+    return this.samples.length === 0;
+  }
+
+  push(time: number, position: THREE.Vector3, velocity: THREE.Vector3): void {
+    const last = this.samples[this.samples.length - 1];
+    // Out-of-order delivery would make the timeline run backwards
+    if (last && time <= last.time) return;
+
+    this.samples.push({ time, position: position.clone(), velocity: velocity.clone() });
+    if (this.samples.length > CAPACITY) this.samples.shift();
+  }
+
+  clear(): void {
+    this.samples = [];
+  }
+
+  /**
+   * Position at `renderTime`: interpolated between the samples around it, or
+   * dead-reckoned from the newest sample for at most `maxExtrapolation` ms.
+   */
+  sample(renderTime: number, maxExtrapolation: number, out: THREE.Vector3): THREE.Vector3 | undefined {
+    const samples = this.samples;
+    if (!samples.length) return undefined;
+
+    if (renderTime <= samples[0].time) return out.copy(samples[0].position);
+
+    for (let i = samples.length - 1; i > 0; i--) {
+      const a = samples[i - 1];
+      const b = samples[i];
+      if (renderTime >= a.time && renderTime <= b.time) {
+        const t = (renderTime - a.time) / (b.time - a.time);
+        return out.lerpVectors(a.position, b.position, t);
+      }
+    }
+
+    const last = samples[samples.length - 1];
+    const ahead = Math.min(renderTime - last.time, maxExtrapolation) / 1000;
+    return out.copy(last.position).addScaledVector(last.velocity, ahead);
+  }
+}
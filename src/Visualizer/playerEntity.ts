@@ -2,8 +2,11 @@
 import * as THREE from 'three';
 import type { World } from '@iwsdk/core';
 import { PlayerEntry } from './types';
-import { LabelRenderer } from './labelRenderer';
+import type { EntityKind } from '../../shared/telemetry.js';
+import { LabelContent, LabelRenderer } from './labelRenderer';
 import { TrailRenderer } from './trailRenderer';
+import { MotionBuffer } from './motionBuffer';
+import { LabelBillboard } from './billboarding';
 
 export class PlayerEntity {
   constructor(
@@ -12,12 +15,23 @@ export class PlayerEntity {
     private configRadius: number,
     private baseColor: number,
     private labelRenderer: LabelRenderer,
-    private trailRenderer: TrailRenderer
+    private trailRenderer: TrailRenderer,
+    private labelScaleWithDistance: boolean,
+    private labelDeclutter: boolean
   ) {}
 
-  create(name: string): PlayerEntry {
+  // Players are spheres; NPCs smaller spheres; objectives octahedra so they read as pickups
+  private geometryFor(kind: EntityKind): THREE.BufferGeometry {
+    switch (kind) {
+      case 'npc': return new THREE.SphereGeometry(this.configRadius * 0.6);
+      case 'objective': return new THREE.OctahedronGeometry(this.configRadius * 1.2);
+      default: return new THREE.SphereGeometry(this.configRadius);
+    }
+  }
+
+  create(label: LabelContent, kind: EntityKind = 'player'): PlayerEntry {
     const sphere = new THREE.Mesh(
-      new THREE.SphereGeometry(this.configRadius),
+      this.geometryFor(kind),
       new THREE.MeshBasicMaterial({ color: this.baseColor })
     );
 
@@ -25,19 +39,30 @@ export class PlayerEntity {
     if (!playerEntity.object3D) throw new Error('Failed');
     this.cityMesh.add(playerEntity.object3D);
 
+    // World-space, so the label keeps its size whatever the map is scaled to;
+    // LabelBillboardSystem moves it above the sphere every frame
     const labelRoot = new THREE.Group();
-    labelRoot.matrixAutoUpdate = true;
-    this.world.scene.add(labelRoot);
+    const labelEntity = this.world.createTransformEntity(labelRoot);
 
     const entry: PlayerEntry = {
+      name: label.title,
       entity: playerEntity,
       mesh: sphere,
       label: undefined,
       labelRoot,
-      points: [],
+      labelEntity,
+      motion: new MotionBuffer(),
     };
 
-    entry.label = this.labelRenderer.createLabel(labelRoot, name);
+    entry.label = this.labelRenderer.createLabel(labelRoot, label);
+    labelEntity.addComponent(LabelBillboard, {
+      target: sphere,
+      offset: this.configRadius * 1.5,   // Labels are bottom-anchored, so this clears the body
+      width: entry.label.width,
+      height: entry.label.height,
+      scaleWithDistance: this.labelScaleWithDistance,
+      declutter: this.labelDeclutter,
+    });
     return entry;
   }
 
@@ -45,7 +70,7 @@ export class PlayerEntity {
     (mesh.material as THREE.MeshBasicMaterial).color.copy(color);
   }
 
-  updateTrail(entry: PlayerEntry, color: THREE.Color): void {
-    this.trailRenderer.updateTrail(entry, color);
+  updateTrail(entry: PlayerEntry, point: THREE.Vector3, color: THREE.Color): void {
+    this.trailRenderer.push(entry, point, color);
   }
 }
\ No newline at end of file
@@ -0,0 +1,94 @@
+// src/visualizer/replayPlayer.ts
+import { ReplayFrame } from './types';
+
+export const MIN_REPLAY_SPEED = 0.25;
+export const MAX_REPLAY_SPEED = 4;
+
+export class ReplayPlayer {
+  private readonly frames: ReplayFrame[];
+  private readonly startTime: number;
+  private cursor = 0;             // Playback position in ms from the first frame
+  private playing = false;
+  private speed = 1;
+  private loop = false;
+
+  constructor(frames: ReplayFrame[]) {
+    this.frames = [...frames].sort((a, b) => a.t - b.t);
+    this.startTime = this.frames[0]?.t ?? 0;
+  }
+
+  get duration(): number {
+    if (this.frames.length < 2) return 0;
+    return this.frames[this.frames.length - 1].t - this.startTime;
+  }
+
+  get currentTime(): number { return this.cursor; }
+  /** Recorded time (ms since epoch) at the playhead, on the frames' own clock. */
+  get currentTimestamp(): number { return this.startTime + this.cursor; }
+  get isPlaying(): boolean { return this.playing; }
+  get playbackSpeed(): number { return this.speed; }
+  get isLooping(): boolean { return this.loop; }
+  get frameCount(): number { return this.frames.length; }
+
+  play(): void {
+    // Restart from the top when play is pressed at the end of a finished replay
+    if (this.cursor >= this.duration) this.cursor = 0;
+    this.playing = true;
+  }
+
+  pause(): void {
+    this.playing = false;
+  }
+
+  togglePlay(): void {
+    if (this.playing) this.pause();
+    else this.play();
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = Math.min(MAX_REPLAY_SPEED, Math.max(MIN_REPLAY_SPEED, speed));
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+  }
+
+  seek(time: number): void {
+    this.cursor = Math.min(this.duration, Math.max(0, time));
+  }
+
+  /** Seek to a fraction (0–1) of the replay's duration. */
+  seekFraction(fraction: number): void {
+    this.seek(fraction * this.duration);
+  }
+
+  /** Advance the playhead by a wall-clock delta in ms, honouring speed and loop. */
+  advance(deltaMs: number): void {
+    if (!this.playing) return;
+
+    this.cursor += deltaMs * this.speed;
+    if (this.cursor < this.duration) return;
+
+    if (this.loop && this.duration > 0) {
+      this.cursor %= this.duration;
+    } else {
+      this.cursor = this.duration;
+      this.playing = false;
+    }
+  }
+
+  /** Latest frame at or before the playhead. */
+  currentFrame(): ReplayFrame | undefined {
+    if (!this.frames.length) return undefined;
+
+    const target = this.startTime + this.cursor;
+    let lo = 0;
+    let hi = this.frames.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.frames[mid].t <= target) lo = mid;
+      else hi = mid - 1;
+    }
+    return this.frames[lo];
+  }
+}
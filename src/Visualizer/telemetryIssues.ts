@@ -0,0 +1,17 @@
+// src/visualizer/telemetryIssues.ts
+import { formatIssues, NormalizeResult } from '../../shared/telemetry.js';
+
+// A broken sender repeats the same problem every tick; only log when it changes
+export class TelemetryIssueReporter {
+  private last = '';
+
+  constructor(private source: string) {}
+
+  report(result: NormalizeResult): void {
+    const message = formatIssues(result.errors);
+    if (message && message !== this.last) {
+      console.warn(`[Telemetry] Dropped data from ${this.source}: ${message}`);
+    }
+    this.last = message;
+  }
+}
@@ -1,37 +1,188 @@
 import * as THREE from 'three';
 
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Per-vertex colour and push sequence; alpha comes from how far a vertex is
+// behind the newest one, so fading never touches the older vertices
+const vertexShader = /* glsl */ `
+  attribute vec3 trailColor;
+  attribute float seq;
+  uniform float head;
+  uniform float span;
+  uniform float fade;
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    vColor = trailColor;
+    vAlpha = 1.0 - fade * clamp((head - seq) / span, 0.0, 1.0);
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform float opacity;
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    if (vAlpha <= 0.0) discard;
+    gl_FragColor = vec4(vColor, vAlpha * opacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+/**
+ * Flat ribbon through a player's last `capacity` positions, stored as a ring
+ * buffer: each push writes one slot (two vertices) and two quads of the index,
+ * and only those ranges are uploaded.
+ *
+ * Slot s owns vertices 2s and 2s+1; quad q joins slot q to slot q+1. The quad
+ * leaving the newest slot would join it to the oldest, so it is kept degenerate.
+ */
+export class TrailRibbon {
+  readonly mesh: THREE.Mesh;
+  private readonly geometry = new THREE.BufferGeometry();
+  private readonly material: THREE.ShaderMaterial;
+  private readonly positions: THREE.BufferAttribute;
+  private readonly colors: THREE.BufferAttribute;
+  private readonly seqs: THREE.BufferAttribute;
+  private readonly index: THREE.BufferAttribute;
+
+  private next = 0;               // Slot the next push writes
+  private count = 0;
+  private seq = 0;
+  private readonly last = new THREE.Vector3();
+  private readonly side = new THREE.Vector3(0, 0, 1);
+  private readonly dir = new THREE.Vector3();
+
+  constructor(private capacity: number, private halfWidth: number, opacity: number, fade: boolean) {
+    this.positions = new THREE.BufferAttribute(new Float32Array(capacity * 6), 3).setUsage(THREE.DynamicDrawUsage);
+    this.colors = new THREE.BufferAttribute(new Float32Array(capacity * 6), 3).setUsage(THREE.DynamicDrawUsage);
+    this.seqs = new THREE.BufferAttribute(new Float32Array(capacity * 2), 1).setUsage(THREE.DynamicDrawUsage);
+    const indices = capacity * 2 > 0xffff ? new Uint32Array(capacity * 6) : new Uint16Array(capacity * 6);
+    this.index = new THREE.BufferAttribute(indices, 1).setUsage(THREE.DynamicDrawUsage);
+
+    this.geometry.setAttribute('position', this.positions);
+    this.geometry.setAttribute('trailColor', this.colors);
+    this.geometry.setAttribute('seq', this.seqs);
+    this.geometry.setIndex(this.index);
+
+    this.material = new THREE.ShaderMaterial({
+      vertexShader,
+      fragmentShader,
+      uniforms: {
+        head: { value: 0 },
+        span: { value: Math.max(capacity - 1, 1) },
+        fade: { value: fade ? 1 : 0 },
+        opacity: { value: opacity },
+      },
+      transparent: true,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    });
+
+    this.mesh = new THREE.Mesh(this.geometry, this.material);
+    // The bounding sphere would go stale with every push
+    this.mesh.frustumCulled = false;
+  }
+
+  push(point: THREE.Vector3, color: THREE.Color) {
+    const slot = this.next;
+    const prev = (slot + this.capacity - 1) % this.capacity;
+
+    // Keep the last sideways vector while the player stands still
+    if (this.count > 0) {
+      this.dir.subVectors(point, this.last);
+      if (this.dir.lengthSq() > 1e-10) this.side.crossVectors(this.dir, UP).normalize();
+      // The first point had no direction of its own
+      if (this.count === 1) this.writeSlot(prev, this.last);
+    }
+
+    this.writeSlot(slot, point);
+    (this.colors.array as Float32Array).set([color.r, color.g, color.b, color.r, color.g, color.b], slot * 6);
+    this.colors.addUpdateRange(slot * 6, 6);
+    this.colors.needsUpdate = true;
+
+    this.seq++;
+    (this.seqs.array as Float32Array).set([this.seq, this.seq], slot * 2);
+    this.seqs.addUpdateRange(slot * 2, 2);
+    this.seqs.needsUpdate = true;
+    this.material.uniforms.head.value = this.seq;
+
+    if (this.count > 0) this.setQuad(prev, true);
+    this.setQuad(slot, false);
+
+    this.last.copy(point);
+    this.next = (slot + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  /** Forget every point but keep the buffers. */
+  clear() {
+    (this.index.array as Uint16Array | Uint32Array).fill(0);
+    this.index.clearUpdateRanges();
+    this.index.needsUpdate = true;
+    this.next = 0;
+    this.count = 0;
+  }
+
+  dispose() {
+    this.mesh.removeFromParent();
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+
+  private writeSlot(slot: number, point: THREE.Vector3) {
+    const { x, y, z } = this.side;
+    const w = this.halfWidth;
+    (this.positions.array as Float32Array).set([
+      point.x - x * w, point.y - y * w, point.z - z * w,
+      point.x + x * w, point.y + y * w, point.z + z * w,
+    ], slot * 6);
+    this.positions.addUpdateRange(slot * 6, 6);
+    this.positions.needsUpdate = true;
+  }
+
+  private setQuad(quad: number, joined: boolean) {
+    const a = quad * 2;
+    const b = ((quad + 1) % this.capacity) * 2;
+    (this.index.array as Uint16Array | Uint32Array).set(
+      joined ? [a, a + 1, b, a + 1, b + 1, b] : [a, a, a, a, a, a],
+      quad * 6
+    );
+    this.index.addUpdateRange(quad * 6, 6);
+    this.index.needsUpdate = true;
+  }
+}
+
 export class TrailRenderer {
   constructor(
     private trailEnabled: boolean,
     private trailLength: number,
     private trailWidth: number,
     private trailOpacity: number,
+    private trailFade: boolean,
     private cityMesh: THREE.Group
   ) {}
 
-  updateTrail(
-    entry: { trail?: THREE.Mesh; points: THREE.Vector3[] },
-    color: THREE.Color
-  ): void {
-    if (!this.trailEnabled || entry.points.length < 2) return;
-
-    const curve = new THREE.CatmullRomCurve3(entry.points);
-    const geom = new THREE.TubeGeometry(curve, 40, this.trailWidth, 8, false);
-    const mat = new THREE.MeshBasicMaterial({
-      color,
-      transparent: true,
-      opacity: this.trailOpacity,
-      side: THREE.DoubleSide,
-    });
+  /** Append a position; `color` is kept per point, so the trail shows speed over time. */
+  push(entry: { trail?: TrailRibbon }, point: THREE.Vector3, color: THREE.Color): void {
+    if (!this.trailEnabled || this.trailLength < 2) return;
 
-    if (entry.trail) {
-      entry.trail.geometry.dispose();
-      entry.trail.geometry = geom;
-      (entry.trail.material as THREE.MeshBasicMaterial).color.copy(color);
-    } else {
-      const mesh = new THREE.Mesh(geom, mat);
-      this.cityMesh.add(mesh);
-      entry.trail = mesh;
+    if (!entry.trail) {
+      entry.trail = new TrailRibbon(this.trailLength, this.trailWidth, this.trailOpacity, this.trailFade);
+      this.cityMesh.add(entry.trail.mesh);
     }
+    entry.trail.push(point, color);
+  }
+
+  reset(entry: { trail?: TrailRibbon }): void {
+    entry.trail?.clear();
+  }
+
+  dispose(entry: { trail?: TrailRibbon }): void {
+    entry.trail?.dispose();
+    entry.trail = undefined;
   }
-}
\ No newline at end of file
+}
@@ -1,38 +1,109 @@
-import type { World } from '@iwsdk/core';
+import type { Entity, World } from '@iwsdk/core';
 import * as THREE from 'three';
+import type { MotionBuffer } from './motionBuffer';
+import type { TrailRibbon } from './trailRenderer';
+import type { NameLabel } from './labelRenderer';
+import type { LabelFontId } from './fonts';
+import type { MapTransform } from '../types';
+import type { TelemetryAngles, TelemetryPlayer } from '../../shared/telemetry.js';
 
-export interface PlayerData {
-  name: string;
-  x: number; y: number; z: number;
-  velocity: { x: number; y: number; z: number } | string;
+// Players arrive already validated and upgraded to the current telemetry schema
+export type PlayerData = TelemetryPlayer;
+export type PlayerAngles = TelemetryAngles;
+
+// One recorded relay tick, as stored by the server's recording buffer
+export interface ReplayFrame {
+  t: number;                      // Server receive time (ms since epoch)
+  players: PlayerData[];
 }
 
+// 'websocket' streams pushes from the relay and polls dataUrl only while disconnected
+export type Transport = 'websocket' | 'http';
+
+// 'instanced' draws every player with shared InstancedMeshes and a label atlas;
+// 'auto' uses it once a session has more than instancedThreshold players
+export type RenderMode = 'entities' | 'instanced' | 'auto';
+
+// Secondary line under the name: nothing, rounded speed (u/s) or "HP n" when the game sends health
+export type LabelDetail = 'none' | 'speed' | 'health';
+
+// What colours bodies and headings (and trails with trailColor 'body'): speed (hue cycles every
+// 100 u/s), team (teamColors, else a hue derived from the name) or colorField (a tag or player
+// field, numbers over colorFieldRange)
+export type ColorScheme = 'speed' | 'team' | 'field';
+
+// Trail colour: per-point speed (default, whatever the body scheme) or the body colour
+export type TrailColor = 'speed' | 'body';
+
+// What is currently feeding the live view (shown on the replay panel)
+export type ConnectionState = 'websocket' | 'polling' | 'offline' | 'mock';
+
 export interface PlayerVisualizerConfig {
   dataUrl?: string;
+  streamUrl?: string;
+  session?: string;               // Relay session (one per game server) to show
+  getRelayToken?: () => string | undefined; // View token for the relay; read per request, so one entered later applies
+  transport?: Transport;
   useMock?: boolean;
   updateInterval?: number;
   playerRadius?: number;
-  playerColor?: number;
+  renderMode?: RenderMode;
+  instancedThreshold?: number;
+  playerColor?: number;           // Also used by the team and field schemes when a player has no value
+  colorScheme?: ColorScheme;
+  colorField?: string;
+  colorFieldRange?: [number, number];
+  deadOpacity?: number;           // Dead players stay on the map at this opacity (0 hides them)
+  fadeDuration?: number;          // ms to fade into the dead state, or out when a player leaves
   debugMode?: boolean;
   boundingBox?: THREE.Box3;
+  transform?: MapTransform;       // Game → hologram mapping of the map being shown
+  adapter?: string;               // Telemetry adapter id (shared/adapters) for angle conventions
   showBounds?: boolean;
+  interpolation?: boolean;
+  renderDelay?: number;           // ms behind the newest sample the players are drawn
+  maxExtrapolation?: number;      // ms to dead-reckon with velocity when samples stop
+  showHeading?: boolean;          // Cone pointing where the player is looking
+  showLookRay?: boolean;
+  lookRayLength?: number;
   labelHeight?: number;
   labelFontSize?: number;
-  labelColor?: number;
+  labelColor?: number;            // Name colour for players without a team colour
+  labelFont?: LabelFontId;        // Bundled face from public/fonts (see fonts.ts)
+  labelBackground?: boolean;      // Plate behind the text
+  labelBackgroundColor?: number;
+  labelBackgroundOpacity?: number;
+  labelDetail?: LabelDetail;
+  teamColors?: Record<string, number>;  // Team name → label colour, and body colour under the team scheme
+  labelScaleWithDistance?: boolean;  // Grow far labels so they stay readable
+  labelDeclutter?: boolean;       // Hide labels a nearer one overlaps (per-player render mode)
   trailEnabled?: boolean;
   trailLength?: number;
   trailOpacity?: number;
   trailWidth?: number;
+  trailFade?: boolean;            // Fade out towards the oldest point
+  trailColor?: TrailColor;
+  heatmapEnabled?: boolean;       // Show the position heatmap from the start (it always collects)
+  heatmapResolution?: number;     // Grid cells along the longer side of the bounds
+  heatmapOpacity?: number;
+  heatmapHeight?: number | null;  // Hologram-local y of the overlay; null puts it at the bottom of the bounds
+  heatmapMaxSamples?: number;     // Oldest half is dropped when reached
 }
 
 export type RequiredConfig = Required<PlayerVisualizerConfig>;
 
 
 export interface PlayerEntry {
+  name: string;                   // Display name; entries are keyed by player id
   entity: any;                    // IWSDK entity for the sphere
   mesh: THREE.Mesh;               // Red sphere
-  label?: THREE.Mesh | THREE.Sprite;
+  label?: NameLabel;
   labelRoot: THREE.Group;         // World-space group — THIS IS THE KEY
-  trail?: THREE.Mesh;
-  points: THREE.Vector3[];
+  labelEntity: Entity;            // IWSDK entity for labelRoot, driven by LabelBillboardSystem
+  trail?: TrailRibbon;            // Created on the first position when trails are enabled
+  heading?: THREE.Group;          // Child of the sphere, rotated to the look direction
+  motion: MotionBuffer;           // Sampled every frame by PlayerInterpolationSystem
+  lastSampleTime?: number;
+  dead?: boolean;                 // Last sample said alive: false
+  leaving?: boolean;              // Gone from the data; fading out before removePlayer
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+// src/visualizer/webSocketTransport.ts
+import { PlayerData } from './types';
+import { TelemetryIssueReporter } from './telemetryIssues';
+import { normalizePacket } from '../../shared/telemetry.js';
+
+const MIN_RECONNECT_MS = 500;
+const MAX_RECONNECT_MS = 10000;
+
+export class WebSocketTransport {
+  private socket?: WebSocket;
+  private reconnectTimer?: number;
+  private reconnectDelay = MIN_RECONNECT_MS;
+  private closed = false;
+  private readonly issues = new TelemetryIssueReporter('live stream');
+
+  constructor(
+    private streamUrl: () => string,  // Built per connect, so a reconnect picks up a newly entered token
+    private onPlayers: (players: PlayerData[], adapter?: string) => void,
+    private onOpenChange: (open: boolean) => void,
+    private debugMode: boolean = false
+  ) {}
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  connect(): void {
+    this.closed = false;
+
+    try {
+      this.socket = new WebSocket(this.streamUrl());
+    } catch (e) {
+      if (this.debugMode) console.error('WebSocket connect failed', e);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket.onopen = () => {
+      this.reconnectDelay = MIN_RECONNECT_MS;
+      this.onOpenChange(true);
+    };
+
+    this.socket.onmessage = (event) => {
+      try {
+        const msg = JSON.parse(event.data);
+        if (msg.type !== 'players') return;
+        const result = normalizePacket({ v: msg.v, players: msg.players });
+        this.issues.report(result);
+        this.onPlayers(result.packet?.players ?? [], msg.adapter);
+      } catch (e) {
+        if (this.debugMode) console.error('Bad stream message', e);
+      }
+    };
+
+    this.socket.onclose = () => {
+      this.socket = undefined;
+      this.onOpenChange(false);
+      this.scheduleReconnect();
+    };
+
+    // onclose follows onerror, so reconnecting is handled there
+    this.socket.onerror = (e) => {
+      if (this.debugMode) console.error('WebSocket error', e);
+    };
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = undefined;
+    }
+  }
+
+  // Exponential backoff so a dead relay isn't hammered by every headset
+  private scheduleReconnect(): void {
+    if (this.closed) return;
+    this.reconnectTimer = window.setTimeout(() => this.connect(), this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_MS);
+  }
+}
@@ -0,0 +1,335 @@
+import * as THREE from "three";
+import { createSystem, DistanceGrabbable, Entity, MovementMode, VisibilityState } from "@iwsdk/core";
+
+import { DEFAULT_ANNOTATION_MS, MAX_STROKE_POINTS, type Annotation } from "../../shared/annotations.js";
+import type { MapManager } from "../maps/mapManager";
+import type { PointerHit, PointerTarget } from "../pointerEvents";
+import type { ReplayApi } from "../replayApi";
+import type { ReplayPanelSystem } from "../ReplayPanelSystem";
+import type { PlayerVisualizer } from "../Visualizer/PlayerVisualizer";
+import type { ReplayPlayer } from "../Visualizer/replayPlayer";
+import { buildAnnotation, disposeAnnotation } from "./annotationMeshes";
+
+export type DrawTool = "off" | "stroke" | "arrow" | "pin";
+export const DRAW_TOOLS: DrawTool[] = ["off", "stroke", "arrow", "pin"];
+export const DRAW_COLORS = [0xfacc15, 0xef4444, 0x22d3ee, 0xffffff];
+
+const MIN_STEP = 0.5;             // Map-local units between stroke points, and the shortest arrow
+const SURFACE_LIFT = 0.3;         // Keeps strokes from sinking into the surface they were drawn on
+const SAVE_DELAY_MS = 1000;       // Edits in quick succession go to the relay as one save
+
+/**
+ * Telestration (T cycles the tool, Ctrl+Z undoes): strokes, arrows and text pins drawn
+ * with a controller ray or the mouse, as children of the map like trails. On a replay
+ * loaded from the relay each annotation is stamped with the playback time, shown from
+ * then for DEFAULT_ANNOTATION_MS, and saved with the replay. Live, they stay up until cleared.
+ */
+export class TelestrationSystem extends createSystem({}) {
+  private currentTool: DrawTool = "off";
+  private colorIndex = 0;
+  private annotations: Annotation[] = [];
+  private objects = new Map<string, THREE.Object3D>();
+  private drawing?: { annotation: Annotation; object?: THREE.Object3D };
+  private nextId = 1;
+
+  private mesh?: PointerTarget;
+  private entity?: Entity;
+  private replay?: ReplayPlayer;
+  private replayId?: string;         // Relay replay the annotations are saved to
+  private loadingId?: string;        // Relay replay whose saved annotations are still on the way
+  private dropped?: Annotation[];    // From a .flowz file about to be played locally
+  private saveTimer?: number;
+
+  private local = new THREE.Vector3();
+  private start = new THREE.Vector3();
+  private end = new THREE.Vector3();
+
+  private onPointerDown = (e: PointerHit) => {
+    if (this.currentTool === "off" || this.currentTool === "pin" || !this.toLocal(e.point)) return;
+    this.finishDrawing();
+    const points: Annotation["points"] = this.currentTool === "arrow"
+      ? [this.local.toArray(), this.local.toArray()]
+      : [this.local.toArray()];
+    this.drawing = { annotation: this.newAnnotation(this.currentTool, points) };
+  };
+
+  private onPointerMove = (e: PointerHit) => {
+    const drawing = this.drawing;
+    if (!drawing || !this.toLocal(e.point)) return;
+    const points = drawing.annotation.points;
+
+    if (drawing.annotation.kind === "arrow") {
+      points[1] = this.local.toArray();
+    } else {
+      if (points.length >= MAX_STROKE_POINTS || this.local.distanceTo(this.end.fromArray(points[points.length - 1])) < MIN_STEP) return;
+      points.push(this.local.toArray());
+    }
+    this.redrawPreview();
+  };
+
+  private onPointerUp = (e: PointerHit) => {
+    if (this.currentTool === "pin" && this.toLocal(e.point)) {
+      const text = this.pinText();
+      if (text !== undefined) this.add({ ...this.newAnnotation("pin", [this.local.toArray()]), text });
+      return;
+    }
+    this.finishDrawing();
+  };
+
+  // Leaving the map ends the stroke there, as the release would never reach it
+  private onPointerLeave = () => this.finishDrawing();
+
+  private get mapManager(): MapManager | undefined {
+    return this.globals.mapManager;
+  }
+
+  private get visualizer(): PlayerVisualizer | undefined {
+    return this.globals.visualizer;
+  }
+
+  get tool(): DrawTool {
+    return this.currentTool;
+  }
+
+  get color(): number {
+    return DRAW_COLORS[this.colorIndex];
+  }
+
+  get count(): number {
+    return this.annotations.length;
+  }
+
+  init() {
+    this.globals.telestration = this;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code === "KeyT") this.cycleTool();
+      if (e.code === "KeyZ" && (e.ctrlKey || e.metaKey)) this.undo();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    this.cleanupFuncs.push(() => {
+      window.removeEventListener("keydown", onKeyDown);
+      this.flushSave();
+      this.attach(undefined);
+    });
+  }
+
+  setTool(tool: DrawTool) {
+    this.finishDrawing();
+    this.currentTool = tool;
+    // While drawing, a drag on the map draws instead of moving it
+    if (this.entity) this.setGrabbable(this.entity, tool === "off");
+  }
+
+  cycleTool() {
+    this.setTool(DRAW_TOOLS[(DRAW_TOOLS.indexOf(this.currentTool) + 1) % DRAW_TOOLS.length]);
+  }
+
+  cycleColor() {
+    this.colorIndex = (this.colorIndex + 1) % DRAW_COLORS.length;
+  }
+
+  /** Removes the stroke being drawn, else the newest annotation. */
+  undo() {
+    if (this.drawing) {
+      this.cancelDrawing();
+      return;
+    }
+    const last = this.annotations.pop();
+    if (!last) return;
+    this.removeObject(last.id);
+    this.scheduleSave();
+  }
+
+  clear() {
+    this.cancelDrawing();
+    if (!this.annotations.length) return;
+    this.setAnnotations([]);
+    this.scheduleSave();
+  }
+
+  /** Annotations of a dropped .flowz file; call just before playing it. */
+  showWithNextReplay(annotations: Annotation[]) {
+    this.dropped = annotations;
+  }
+
+  update() {
+    const map = this.mapManager?.current;
+    if (map?.entity.object3D !== this.mesh) this.attach(map?.entity);
+
+    const replay = this.visualizer?.replayPlayer;
+    if (replay !== this.replay) this.changeReplay(replay);
+
+    // Live, everything stays up; in a replay each annotation has its moment
+    const time = replay?.currentTime ?? 0;
+    for (const annotation of this.annotations) {
+      const object = this.objects.get(annotation.id);
+      if (object) object.visible = !replay || (time >= annotation.t && time < annotation.t + annotation.duration);
+    }
+  }
+
+  // ---------- Context ----------
+
+  // Pointer events come from the map hologram, like calibration clicks
+  private attach(entity: Entity | undefined) {
+    this.cancelDrawing();
+    const previous = this.mesh;
+    previous?.removeEventListener("pointerdown", this.onPointerDown);
+    previous?.removeEventListener("pointermove", this.onPointerMove);
+    previous?.removeEventListener("pointerup", this.onPointerUp);
+    previous?.removeEventListener("pointerleave", this.onPointerLeave);
+    if (this.entity) this.setGrabbable(this.entity, true);
+    this.objects.forEach(object => disposeAnnotation(object));
+    this.objects.clear();
+
+    const mesh = entity?.object3D;
+    this.mesh = mesh;
+    this.entity = entity;
+    mesh?.addEventListener("pointerdown", this.onPointerDown);
+    mesh?.addEventListener("pointermove", this.onPointerMove);
+    mesh?.addEventListener("pointerup", this.onPointerUp);
+    mesh?.addEventListener("pointerleave", this.onPointerLeave);
+    if (entity) this.setGrabbable(entity, this.currentTool === "off");
+    this.annotations.forEach(annotation => this.addObject(annotation));
+  }
+
+  private changeReplay(replay: ReplayPlayer | undefined) {
+    this.flushSave();
+    this.replay = replay;
+    this.replayId = replay ? (this.globals.replayPanel as ReplayPanelSystem | undefined)?.loadedReplayId : undefined;
+    this.loadingId = this.replayId;
+    this.setAnnotations([]);
+
+    if (this.replayId) {
+      // Saves wait for the load, or the first one would replace the stored list with just
+      // what was drawn meanwhile; that is merged in once the stored list is here
+      const id = this.replayId;
+      (this.globals.replayApi as ReplayApi | undefined)?.loadAnnotations(id)
+        .then(annotations => {
+          if (this.loadingId !== id) return;
+          this.loadingId = undefined;
+          const drawn = this.annotations;
+          this.setAnnotations([...annotations, ...drawn]);
+          if (drawn.length) this.scheduleSave();
+        })
+        .catch(e => {
+          if (this.loadingId !== id) return;
+          // Saving now would overwrite annotations we never saw, so this replay's stay local
+          this.loadingId = undefined;
+          this.replayId = undefined;
+          console.warn(`[Telestration] Could not load the annotations of ${id} → not saving them`, e);
+        });
+    } else if (replay && this.dropped) {
+      this.setAnnotations(this.dropped);
+    }
+    this.dropped = undefined;
+  }
+
+  private setGrabbable(entity: Entity, grabbable: boolean) {
+    if (grabbable && !entity.hasComponent(DistanceGrabbable)) {
+      entity.addComponent(DistanceGrabbable, { movementMode: MovementMode.MoveFromTarget });
+    } else if (!grabbable && entity.hasComponent(DistanceGrabbable)) {
+      entity.removeComponent(DistanceGrabbable);
+    }
+  }
+
+  // ---------- Drawing ----------
+
+  private toLocal(point: THREE.Vector3): boolean {
+    if (!this.mesh) return false;
+    this.mesh.worldToLocal(this.local.copy(point));
+    this.local.y += SURFACE_LIFT;
+    return true;
+  }
+
+  private newAnnotation(kind: Annotation["kind"], points: Annotation["points"]): Annotation {
+    return {
+      id: `a${Date.now().toString(36)}-${this.nextId++}`,
+      kind,
+      t: Math.round(this.replay?.currentTime ?? 0),
+      duration: DEFAULT_ANNOTATION_MS,
+      color: this.color,
+      points,
+    };
+  }
+
+  // Browser prompts don't show inside an immersive session, so pins are numbered there
+  private pinText(): string | undefined {
+    const fallback = `Pin ${this.annotations.filter(a => a.kind === "pin").length + 1}`;
+    if (this.world.visibilityState.value !== VisibilityState.NonImmersive) return fallback;
+    const text = window.prompt("Pin label", fallback);
+    return text === null ? undefined : text.trim() || fallback;
+  }
+
+  private redrawPreview() {
+    const drawing = this.drawing!;
+    if (drawing.object) disposeAnnotation(drawing.object);
+    drawing.object = undefined;
+    // Nothing to show until the pointer has moved off the first point
+    if (this.span(drawing.annotation) === 0) return;
+    drawing.object = buildAnnotation(drawing.annotation);
+    this.mesh?.add(drawing.object);
+  }
+
+  private finishDrawing() {
+    const drawing = this.drawing;
+    if (!drawing) return;
+    this.cancelDrawing();
+    if (this.span(drawing.annotation) >= MIN_STEP) this.add(drawing.annotation);
+  }
+
+  // Distance from the first point to the last
+  private span({ points }: Annotation): number {
+    return this.start.fromArray(points[0]).distanceTo(this.end.fromArray(points[points.length - 1]));
+  }
+
+  private cancelDrawing() {
+    if (this.drawing?.object) disposeAnnotation(this.drawing.object);
+    this.drawing = undefined;
+  }
+
+  private add(annotation: Annotation) {
+    this.annotations.push(annotation);
+    this.addObject(annotation);
+    this.scheduleSave();
+  }
+
+  private setAnnotations(annotations: Annotation[]) {
+    this.objects.forEach(object => disposeAnnotation(object));
+    this.objects.clear();
+    this.annotations = [...annotations];
+    this.annotations.forEach(annotation => this.addObject(annotation));
+  }
+
+  private addObject(annotation: Annotation) {
+    if (!this.mesh) return;
+    const object = buildAnnotation(annotation);
+    this.objects.set(annotation.id, object);
+    this.mesh.add(object);
+  }
+
+  private removeObject(id: string) {
+    const object = this.objects.get(id);
+    if (object) disposeAnnotation(object);
+    this.objects.delete(id);
+  }
+
+  // ---------- Saving ----------
+
+  // Only replays loaded from the relay are saved; live and dropped-file annotations are not
+  private scheduleSave() {
+    if (!this.replayId || this.loadingId) return;
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = window.setTimeout(() => this.flushSave(), SAVE_DELAY_MS);
+  }
+
+  private flushSave() {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+
+    const id = this.replayId!;
+    (this.globals.replayApi as ReplayApi | undefined)?.saveAnnotations(id, this.annotations)
+      .catch(e => console.warn(`[Telestration] Could not save the annotations of ${id}`, e));
+  }
+}
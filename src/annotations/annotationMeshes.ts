@@ -0,0 +1,108 @@
+import * as THREE from "three";
+
+import type { Annotation } from "../../shared/annotations.js";
+
+// Map-local units, where a player sphere has radius 1
+const STROKE_RADIUS = 0.25;
+const ARROW_HEAD_RADIUS = 1;
+const ARROW_HEAD_LENGTH = 2.5;
+const PIN_HEIGHT = 6;
+const PIN_HEAD_RADIUS = 0.8;
+const PIN_TEXT_HEIGHT = 2.5;
+const PIN_FONT = "bold 44px sans-serif";
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+function material(color: number): THREE.MeshBasicMaterial {
+  return new THREE.MeshBasicMaterial({ color });
+}
+
+function tube(points: THREE.Vector3[], color: number): THREE.Mesh {
+  const curve = points.length === 2
+    ? new THREE.LineCurve3(points[0], points[1])
+    : new THREE.CatmullRomCurve3(points);
+  return new THREE.Mesh(new THREE.TubeGeometry(curve, Math.max(points.length * 2, 2), STROKE_RADIUS, 6), material(color));
+}
+
+function arrow(tail: THREE.Vector3, head: THREE.Vector3, color: number): THREE.Group {
+  const group = new THREE.Group();
+  const direction = new THREE.Vector3().subVectors(head, tail);
+  const length = direction.length();
+  direction.normalize();
+
+  // The shaft stops where the head starts, so short arrows are all head
+  const shaftEnd = tail.clone().addScaledVector(direction, Math.max(length - ARROW_HEAD_LENGTH, 0));
+  if (length > ARROW_HEAD_LENGTH) group.add(tube([tail, shaftEnd], color));
+
+  const cone = new THREE.Mesh(new THREE.ConeGeometry(ARROW_HEAD_RADIUS, Math.min(ARROW_HEAD_LENGTH, length), 12), material(color));
+  cone.quaternion.setFromUnitVectors(UP, direction);
+  cone.position.copy(shaftEnd).addScaledVector(direction, Math.min(ARROW_HEAD_LENGTH, length) / 2);
+  group.add(cone);
+  return group;
+}
+
+function textSprite(text: string, color: number): THREE.Sprite {
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d")!;
+  context.font = PIN_FONT;
+  canvas.width = Math.ceil(context.measureText(text).width) + 32;
+  canvas.height = 64;
+
+  // Resizing the canvas resets the context
+  context.font = PIN_FONT;
+  context.fillStyle = "rgba(0, 0, 0, 0.6)";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = `#${color.toString(16).padStart(6, "0")}`;
+  context.textBaseline = "middle";
+  context.fillText(text, 16, canvas.height / 2);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: texture, depthTest: false }));
+  sprite.scale.set(PIN_TEXT_HEIGHT * canvas.width / canvas.height, PIN_TEXT_HEIGHT, 1);
+  sprite.center.set(0.5, 0);
+  sprite.renderOrder = 12;
+  return sprite;
+}
+
+function pin(foot: THREE.Vector3, text: string, color: number): THREE.Group {
+  const group = new THREE.Group();
+  group.position.copy(foot);
+
+  const stem = tube([new THREE.Vector3(), new THREE.Vector3(0, PIN_HEIGHT, 0)], color);
+  const head = new THREE.Mesh(new THREE.SphereGeometry(PIN_HEAD_RADIUS, 16, 12), material(color));
+  head.position.y = PIN_HEIGHT;
+  group.add(stem, head);
+
+  if (text) {
+    const label = textSprite(text, color);
+    label.position.y = PIN_HEIGHT + PIN_HEAD_RADIUS * 1.5;
+    group.add(label);
+  }
+  return group;
+}
+
+/** Meshes for one annotation, in the map-local space its points are in. */
+export function buildAnnotation(annotation: Annotation): THREE.Object3D {
+  const points = annotation.points.map(p => new THREE.Vector3().fromArray(p));
+  switch (annotation.kind) {
+    case "stroke":
+      return tube(points, annotation.color);
+    case "arrow":
+      return arrow(points[0], points[1], annotation.color);
+    case "pin":
+      return pin(points[0], annotation.text ?? "", annotation.color);
+  }
+}
+
+export function disposeAnnotation(object: THREE.Object3D) {
+  object.removeFromParent();
+  object.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    // Every sprite shares one quad geometry
+    if (!(child instanceof THREE.Sprite)) mesh.geometry?.dispose();
+    const m = mesh.material as THREE.MeshBasicMaterial | THREE.SpriteMaterial | undefined;
+    m?.map?.dispose();
+    m?.dispose();
+  });
+}
@@ -0,0 +1,286 @@
+import * as THREE from "three";
+import {
+  createSystem,
+  PanelUI,
+  PanelDocument,
+  eq,
+  UIKitDocument,
+  UIKit,
+} from "@iwsdk/core";
+
+import { getFileTransform } from "../maps";
+import type { MapManager } from "../maps/mapManager";
+import type { PointerHit, PointerTarget } from "../pointerEvents";
+import type { PlayerVisualizer } from "../Visualizer/PlayerVisualizer";
+import {
+  CalibrationPair,
+  CalibrationResult,
+  MIN_CALIBRATION_PAIRS,
+  solveAffine,
+} from "./affineSolver";
+import { clearCalibration, saveCalibration } from "./calibrationStore";
+
+const MARKER_RADIUS = 1.5;        // Hologram-local units
+
+function formatVec(v: THREE.Vector3): string {
+  return `${v.x.toFixed(0)} ${v.y.toFixed(0)} ${v.z.toFixed(0)}`;
+}
+
+/**
+ * Calibration mode (toggle with K): pair known game-space coordinates with
+ * clicks on the map hologram, fit an affine transform and store it for the map.
+ */
+export class CalibrationSystem extends createSystem({
+  calibrationPanel: {
+    required: [PanelUI, PanelDocument],
+    where: [eq(PanelUI, "config", "/ui/calibration.json")],
+  },
+}) {
+  private document?: UIKitDocument;
+  private panel?: THREE.Object3D;
+  private active = false;
+
+  private pairs: CalibrationPair[] = [];
+  private pendingGame?: THREE.Vector3;
+  private result?: CalibrationResult;
+  private step = "Pick a game-space point to start.";
+  private playerIndex = 0;
+
+  private mapMesh?: PointerTarget;
+  private markers = new THREE.Group();
+  private markerGeometry = new THREE.SphereGeometry(MARKER_RADIUS);
+  private clickedMaterial = new THREE.MeshBasicMaterial({ color: 0x22c55e });
+  private fittedMaterial = new THREE.MeshBasicMaterial({ color: 0xef4444 });
+
+  private get visualizer(): PlayerVisualizer | undefined {
+    return this.globals.visualizer;
+  }
+
+  private get mapManager(): MapManager | undefined {
+    return this.globals.mapManager;
+  }
+
+  init() {
+    this.queries.calibrationPanel.subscribe("qualify", (entity) => {
+      const document = PanelDocument.data.document[entity.index] as UIKitDocument;
+      if (!document) return;
+      this.document = document;
+      this.panel = entity.object3D;
+      if (this.panel) this.panel.visible = this.active;
+
+      const button = (id: string) => document.getElementById(id) as UIKit.Text;
+
+      button("pick-player")?.addEventListener("click", () => {
+        this.playerIndex++;
+        this.refresh();
+      });
+      button("capture-player")?.addEventListener("click", () => this.capturePlayer());
+      button("type-coords")?.addEventListener("click", () => this.typeCoordinates());
+      button("undo-pair")?.addEventListener("click", () => this.undo());
+      button("clear-pairs")?.addEventListener("click", () => this.reset());
+      button("solve")?.addEventListener("click", () => this.solve());
+      button("save")?.addEventListener("click", () => this.save());
+      button("reset-map")?.addEventListener("click", () => this.resetMap());
+
+      this.refresh();
+    });
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k") this.setActive(!this.active);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    this.cleanupFuncs.push(() => window.removeEventListener("keydown", onKeyDown));
+  }
+
+  update() {
+    // Switching maps mid-calibration starts over on the new map
+    if (this.active && this.mapManager?.current?.mesh !== this.mapMesh) {
+      this.detach();
+      this.reset();
+      this.attach();
+    }
+  }
+
+  private setActive(active: boolean) {
+    this.active = active;
+    if (this.panel) this.panel.visible = active;
+
+    if (active) {
+      this.attach();
+    } else {
+      this.detach();
+      this.reset();
+    }
+    this.refresh();
+  }
+
+  private onMapClick = (e: PointerHit) => {
+    if (!this.active || !this.mapMesh) return;
+    if (!this.pendingGame) {
+      this.step = "Pick a game-space point before clicking the map.";
+      this.refresh();
+      return;
+    }
+
+    const local = this.mapMesh.worldToLocal(e.point.clone());
+    this.pairs.push({ game: this.pendingGame, local });
+    this.addMarker(local, this.clickedMaterial);
+
+    this.pendingGame = undefined;
+    this.result = undefined;
+    this.step = this.pairs.length < MIN_CALIBRATION_PAIRS
+      ? `Pair added. ${MIN_CALIBRATION_PAIRS - this.pairs.length} more needed.`
+      : "Pair added. Solve, or add more pairs for a better fit.";
+    this.refresh();
+  };
+
+  private attach() {
+    this.mapMesh = this.mapManager?.current?.entity.object3D;
+    if (!this.mapMesh) return;
+    this.mapMesh.add(this.markers);
+    this.mapMesh.addEventListener("click", this.onMapClick);
+  }
+
+  private detach() {
+    if (!this.mapMesh) return;
+    this.mapMesh.remove(this.markers);
+    this.mapMesh.removeEventListener("click", this.onMapClick);
+    this.mapMesh = undefined;
+  }
+
+  private selectedPlayer(): [string, THREE.Vector3] | undefined {
+    const players = [...(this.visualizer?.latestGamePositions ?? [])];
+    if (!players.length) return undefined;
+    return players[this.playerIndex % players.length];
+  }
+
+  private capturePlayer() {
+    const player = this.selectedPlayer();
+    if (!player) {
+      this.step = "No live players reporting.";
+    } else {
+      this.pendingGame = player[1].clone();
+      this.step = `Captured ${player[0]} at ${formatVec(this.pendingGame)}. Click that spot on the map.`;
+    }
+    this.refresh();
+  }
+
+  // Desktop only: browser prompts don't show inside an immersive session
+  private typeCoordinates() {
+    const input = window.prompt("Game coordinates (x y z)");
+    if (!input) return;
+
+    const values = input.trim().split(/[\s,]+/).map(Number);
+    if (values.length !== 3 || values.some(v => !Number.isFinite(v))) {
+      this.step = `Could not read "${input}" as three numbers.`;
+    } else {
+      this.pendingGame = new THREE.Vector3(...values);
+      this.step = `Using ${formatVec(this.pendingGame)}. Click that spot on the map.`;
+    }
+    this.refresh();
+  }
+
+  private undo() {
+    this.pairs.pop();
+    this.result = undefined;
+    this.rebuildMarkers();
+    this.refresh();
+  }
+
+  private reset() {
+    this.pairs = [];
+    this.pendingGame = undefined;
+    this.result = undefined;
+    this.step = "Pick a game-space point to start.";
+    this.rebuildMarkers();
+    this.refresh();
+  }
+
+  private solve() {
+    const map = this.mapManager?.current;
+    if (!map) return;
+
+    try {
+      this.result = solveAffine(this.pairs, map.config.transform);
+      this.step = "Solved. Red markers show where the fit puts each point.";
+    } catch (e) {
+      this.result = undefined;
+      this.step = (e as Error).message;
+    }
+    this.rebuildMarkers();
+    this.refresh();
+  }
+
+  private save() {
+    const map = this.mapManager?.current;
+    if (!map || !this.result) {
+      this.step = "Solve before saving.";
+      this.refresh();
+      return;
+    }
+
+    map.config.transform = this.result.transform;
+    const stored = saveCalibration(map.config.id, this.result.transform);
+    // Paste into the map's file to make the calibration permanent for everyone
+    console.log(`[Calibration] ${map.config.id} transform:`, JSON.stringify(this.result.transform));
+
+    this.mapManager!.refresh();
+    this.step = stored
+      ? `Saved to ${map.config.name}.`
+      : `Applied to ${map.config.name}, but the browser won't store it; it lasts until reload.`;
+    this.refresh();
+  }
+
+  // Drops the saved override and goes back to the transform in the map's file
+  private resetMap() {
+    const map = this.mapManager?.current;
+    if (!map) return;
+
+    const cleared = clearCalibration(map.config.id);
+    map.config.transform = getFileTransform(map.config.id);
+    this.mapManager!.refresh();
+    this.result = undefined;
+    this.rebuildMarkers();
+    this.step = cleared
+      ? `${map.config.name} is back to its map file's transform.`
+      : `${map.config.name} is back to its map file's transform until reload; the browser won't clear the saved one.`;
+    this.refresh();
+  }
+
+  private addMarker(position: THREE.Vector3, material: THREE.Material) {
+    const marker = new THREE.Mesh(this.markerGeometry, material);
+    marker.position.copy(position);
+    this.markers.add(marker);
+  }
+
+  private rebuildMarkers() {
+    this.markers.clear();
+    this.pairs.forEach(({ local }) => this.addMarker(local, this.clickedMaterial));
+    if (!this.result) return;
+
+    const { matrix, offset } = this.result.transform;
+    const m = new THREE.Matrix3().set(...(matrix as Parameters<THREE.Matrix3["set"]>));
+    const o = new THREE.Vector3().fromArray(offset);
+    this.pairs.forEach(({ game }) =>
+      this.addMarker(game.clone().applyMatrix3(m).add(o), this.fittedMaterial)
+    );
+  }
+
+  private refresh() {
+    const document = this.document;
+    if (!document) return;
+
+    const set = (id: string, text: string) =>
+      (document.getElementById(id) as UIKit.Text | null)?.setProperties({ text });
+
+    const player = this.selectedPlayer();
+    const result = this.result;
+
+    set("calibration-map", this.mapManager?.current?.config.name ?? "–");
+    set("calibration-step", this.step);
+    set("calibration-result", result
+      ? `${this.pairs.length} pairs · RMS ${result.rms.toFixed(2)} · max ${result.max.toFixed(2)} (map units)`
+      : `${this.pairs.length} pairs`);
+    set("pick-player", `Player: ${player?.[0] ?? "–"}`);
+  }
+}
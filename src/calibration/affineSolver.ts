@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+import type { MapTransform } from '../types';
+
+export interface CalibrationPair {
+  game: THREE.Vector3;            // Source-engine coordinates
+  local: THREE.Vector3;           // Clicked point in hologram-local units
+}
+
+export interface CalibrationResult {
+  transform: MapTransform;
+  residuals: number[];            // Per-pair error in hologram-local units
+  rms: number;
+  max: number;
+}
+
+export const MIN_CALIBRATION_PAIRS = 4;
+
+// Pulls the fit gently towards the previous transform so a near-flat set of
+// points (every sample on street level) still yields a usable vertical axis.
+const PRIOR_WEIGHT = 1e-10;
+
+/** Solve a 4×4 system in place with partial pivoting. */
+function solve4(a: number[][], b: number[]): number[] {
+  const n = 4;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new Error('Calibration points are degenerate; pick points further apart');
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const f = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) a[row][k] -= f * a[col][k];
+      b[row] -= f * b[col];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Least-squares affine fit local ≈ M · game + o over all pairs, solved
+ * per output axis through the normal equations.
+ */
+export function solveAffine(pairs: CalibrationPair[], prior: MapTransform): CalibrationResult {
+  if (pairs.length < MIN_CALIBRATION_PAIRS) {
+    throw new Error(`Need at least ${MIN_CALIBRATION_PAIRS} point pairs (have ${pairs.length})`);
+  }
+
+  // AᵀA for rows [gx, gy, gz, 1]
+  const ata = [0, 1, 2, 3].map(() => [0, 0, 0, 0]);
+  for (const { game } of pairs) {
+    const row = [game.x, game.y, game.z, 1];
+    for (let i = 0; i < 4; i++) for (let j = 0; j < 4; j++) ata[i][j] += row[i] * row[j];
+  }
+  const lambda = PRIOR_WEIGHT * (ata[0][0] + ata[1][1] + ata[2][2]);
+
+  const matrix: number[] = [];
+  const offset: [number, number, number] = [0, 0, 0];
+  const axes: ('x' | 'y' | 'z')[] = ['x', 'y', 'z'];
+
+  axes.forEach((axis, k) => {
+    const priorRow = prior.matrix.slice(k * 3, k * 3 + 3);
+    const atb = [0, 0, 0, 0];
+    for (const { game, local } of pairs) {
+      const row = [game.x, game.y, game.z, 1];
+      for (let i = 0; i < 4; i++) atb[i] += row[i] * local[axis];
+    }
+
+    const a = ata.map(r => [...r]);
+    for (let i = 0; i < 3; i++) {
+      a[i][i] += lambda;
+      atb[i] += lambda * priorRow[i];
+    }
+
+    const [m0, m1, m2, o] = solve4(a, atb);
+    matrix.push(m0, m1, m2);
+    offset[k] = o;
+  });
+
+  const transform: MapTransform = { matrix, offset };
+  const m = new THREE.Matrix3().set(...(matrix as Parameters<THREE.Matrix3['set']>));
+  const o = new THREE.Vector3().fromArray(offset);
+  const residuals = pairs.map(({ game, local }) =>
+    game.clone().applyMatrix3(m).add(o).distanceTo(local)
+  );
+
+  return {
+    transform,
+    residuals,
+    rms: Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length),
+    max: Math.max(...residuals),
+  };
+}
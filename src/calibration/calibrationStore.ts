@@ -0,0 +1,37 @@
+import type { MapTransform } from '../types';
+
+const STORAGE_PREFIX = 'flowz.calibration.';
+
+// Transforms saved from the calibration tool override the ones in src/maps/*Map.ts
+
+export function loadCalibration(mapId: string): MapTransform | undefined {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + mapId);
+    if (!raw) return undefined;
+    const parsed = JSON.parse(raw) as MapTransform;
+    if (parsed.matrix?.length !== 9 || parsed.offset?.length !== 3) return undefined;
+    return parsed;
+  } catch {
+    return undefined;
+  }
+}
+
+// Both return false when storage is unavailable (private mode, quota); the change then lasts until reload
+
+export function saveCalibration(mapId: string, transform: MapTransform): boolean {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + mapId, JSON.stringify(transform));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function clearCalibration(mapId: string): boolean {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + mapId);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,5 +1,4 @@
 // src/index.ts
-import * as THREE from 'three';
 
 import {
   AssetManifest,
@@ -11,6 +10,7 @@ import {
   SRGBColorSpace,
   PanelUI,
   AssetManager,
+  VisibilityState,
   World,
 } from "@iwsdk/core";
 
@@ -26,12 +26,28 @@ import {
 import { EnvironmentType, LocomotionEnvironment } from "@iwsdk/core";
 
 // Custom systems & visualizers
-import { MapRotationSystem, Rotation } from "./mapRotation";
+import { MapRotationSystem } from "./mapRotation";
 import { PanelSystem } from "./panel.js";
 import { Robot, RobotSystem } from "./robot.js";
 import { PlayerVisualizer } from './Visualizer/PlayerVisualizer';
+import { PlayerInterpolationSystem } from './Visualizer/interpolationSystem';
+import { LabelBillboardSystem } from './Visualizer/billboarding';
+import { PlayerFadeSystem } from './Visualizer/fadeSystem';
 import { KeyboardMovementSystem } from './keyboardMovement';
+import { SpectatorSystem } from './spectator';
+import { MapViewSystem } from './mapView';
 import { ReplayPanelSystem } from "./ReplayPanelSystem";
+import { DEFAULT_MAP_ID } from "./maps";
+import { MapManager } from "./maps/mapManager";
+import { CalibrationSystem } from "./calibration/CalibrationSystem";
+import { enableReplayDrop } from "./replayDrop";
+import { getRelayToken, setTokenPromptCheck } from "./relayAuth";
+import { RELAY_URL } from "./relayConfig";
+import { ReplayApi } from "./replayApi";
+import { AR_MODE } from "./xrConfig";
+import { HideInAR, TabletopSystem } from "./tabletop/TabletopSystem";
+import { RoomSystem } from "./rooms/RoomSystem";
+import { TelestrationSystem } from "./annotations/TelestrationSystem";
 
 
 
@@ -42,50 +58,34 @@ const assets: AssetManifest = {
   webxr: { url: "textures/webxr.png", type: AssetType.Texture, priority: "critical" },
   environmentDesk: { url: "gltf/environmentDesk/environmentDesk.gltf", type: AssetType.GLTF, priority: "critical" },
   plantSansevieria: { url: "gltf/plantSansevieria/plantSansevieria.gltf", type: AssetType.GLTF, priority: "critical" },
-  bigCity: { url: "gltf/BigCity/BigcityV1.glb", type: AssetType.GLTF, priority: "critical" },
   robot: { url: "gltf/robot/robot.gltf", type: AssetType.GLTF, priority: "critical" },
 };
 
-// === MAP CONFIGS ===
-interface MapConfig {
-  meshKey: string;
-  position: THREE.Vector3;
-  scale: number;
-  boundingBox: THREE.Box3;
-}
-
-const mapConfigs: Record<string, MapConfig> = {
-  bigCity: {
-    meshKey: 'bigCity',
-    position: new THREE.Vector3(0, 0.9, -2),
-    scale: 0.01,
-    boundingBox: new THREE.Box3(
-      new THREE.Vector3(-80, -2, -70),
-      new THREE.Vector3(80, 100, 90)
-    ).expandByScalar(2),
-  },
-
-};
-
-let currentMap: string = 'bigCity';
 let currentVisualizer: PlayerVisualizer | null = null;
 
 World.create(document.getElementById("scene-container") as HTMLDivElement, {
   assets,
   xr: {
-    sessionMode: SessionMode.ImmersiveVR,
+    sessionMode: AR_MODE ? SessionMode.ImmersiveAR : SessionMode.ImmersiveVR,
     offer: "always",
-    features: { handTracking: true, layers: true },
+    features: AR_MODE
+      ? { handTracking: true, layers: true, hitTest: true, anchors: true, planeDetection: true }
+      : { handTracking: true, layers: true },
   },
   features: {
     locomotion: { useWorker: true },
     grabbing: true,
     physics: false,
-    sceneUnderstanding: false,
+    // Detected planes are what hit-testing finds tables on
+    sceneUnderstanding: AR_MODE ? { showWireFrame: false } : false,
   },
 }).then((world) => {
   // Register rotation system early
   world.registerSystem(MapRotationSystem);
+  world.registerSystem(PlayerInterpolationSystem);
+  // After interpolation, so labels follow this frame's player positions
+  world.registerSystem(LabelBillboardSystem);
+  world.registerSystem(PlayerFadeSystem);
 
 
   const { camera } = world;
@@ -108,7 +108,26 @@ World.create(document.getElementById("scene-container") as HTMLDivElement, {
   replayPanelPlane.renderOrder = 10;
 
   world.createTransformEntity(replayPanelPlane)
-    .addComponent(PanelUI, { config: "/ui/replay.json" })
+    .addComponent(PanelUI, { config: "/ui/replay.json", maxHeight: 1.4 })
+    .addComponent(Interactable)
+    .addComponent(DistanceGrabbable, { movementMode: MovementMode.MoveFromTarget });
+
+  // Calibration Panel – hidden until calibration mode is toggled with K
+  const calibrationPanelPlane = new Mesh(
+    new PlaneGeometry(1.1, 0.6),
+    new MeshBasicMaterial({
+    transparent: true,
+    opacity: 0,
+    depthWrite: false,
+    depthTest: false,
+    })
+  );
+  calibrationPanelPlane.position.set(1.3, 1.4, -1.3);
+  calibrationPanelPlane.rotateY(-Math.PI / 6);
+  calibrationPanelPlane.renderOrder = 10;
+
+  world.createTransformEntity(calibrationPanelPlane)
+    .addComponent(PanelUI, { config: "/ui/calibration.json" })
     .addComponent(Interactable)
     .addComponent(DistanceGrabbable, { movementMode: MovementMode.MoveFromTarget });
 
@@ -118,72 +137,51 @@ World.create(document.getElementById("scene-container") as HTMLDivElement, {
   deskMesh.rotateY(Math.PI);
   deskMesh.position.set(0, -0.1, 0);
   world.createTransformEntity(deskMesh)
-    .addComponent(LocomotionEnvironment, { type: EnvironmentType.STATIC });
-
-  // Load maps
-  const bigCityMesh = AssetManager.getGLTF("bigCity")!.scene;
-  
-
-  // BigCity
-  bigCityMesh.position.copy(mapConfigs.bigCity.position);
-  bigCityMesh.scale.setScalar(mapConfigs.bigCity.scale);
-  bigCityMesh.updateMatrixWorld(true);
-  world.createTransformEntity(bigCityMesh)
-    .addComponent(Interactable)
-    .addComponent(DistanceGrabbable, { movementMode: MovementMode.MoveFromTarget })
-    .addComponent(Rotation, { speed: 0.05, axis: "Y" });
-
-
-  // Player Visualizer – attached to world root
-  currentVisualizer = new PlayerVisualizer(world, bigCityMesh, {
-    useMock: false,
-    dataUrl: 'https://flowz-iwsdk-dev.onrender.com/data',
-    playerRadius: 1,
-    debugMode: false,
-    showBounds: true,
-    boundingBox: mapConfigs.bigCity.boundingBox,
-    trailEnabled: true,
-    trailLength: 40,
-    trailWidth: 0.4,
-    trailOpacity: 0.9,
-    labelFontSize: .1,     
-  });
-
-  const toggleMap = () => {
-    const nextMap = currentMap === 'bigCity' ? 'summonersRift' : 'bigCity';
-    const nextConfig = mapConfigs[nextMap];
-    const nextMesh = nextMap === 'bigCity' ? bigCityMesh : bigCityMesh;
-
-    bigCityMesh.visible = nextMap === 'bigCity';
-    
+    .addComponent(LocomotionEnvironment, { type: EnvironmentType.STATIC })
+    .addComponent(HideInAR);
 
+  // Maps – loaded lazily from the registry in src/maps; the visualizer is rebuilt per map
+  const mapManager = new MapManager(world, ({ config, mesh }) => {
     currentVisualizer?.destroy();
-    currentVisualizer = new PlayerVisualizer(world, nextMesh, {
+    currentVisualizer = new PlayerVisualizer(world, mesh, {
       useMock: false,
-      dataUrl: 'https://flowz-iwsdk-dev.onrender.com/data',
+      dataUrl: `${RELAY_URL}/data`,
       playerRadius: 1,
       debugMode: false,
       showBounds: false,
-      boundingBox: nextConfig.boundingBox,
       trailEnabled: true,
       trailLength: 40,
       trailWidth: 0.4,
       trailOpacity: 0.9,
       labelFontSize: .8,
+      ...config.visualizer,
+      boundingBox: config.boundingBox,
+      transform: config.transform,
+      adapter: config.adapter,
+      session: world.globals.session as string | undefined,
+      getRelayToken,
     });
-
-    currentMap = nextMap;
-    console.log(`Switched to ${nextMap}`);
-  };
+    world.globals.visualizer = currentVisualizer;
+    console.log(`Switched to ${config.name}`);
+  });
+  world.globals.mapManager = mapManager;
+  world.globals.replayApi = new ReplayApi(RELAY_URL);
+  setTokenPromptCheck(() => world.visibilityState.value === VisibilityState.NonImmersive);
+  mapManager.show(DEFAULT_MAP_ID)
+    .catch(e => console.warn(`Could not load map "${DEFAULT_MAP_ID}"`, e));
 
   window.addEventListener('keydown', (e) => {
-    if (e.key.toLowerCase() === 'm') toggleMap();
+    if (e.key.toLowerCase() === 'm') mapManager.next().catch(err => console.warn('Could not load the next map', err));
   });
 
+  // Drag a .flowz file onto the page to play it locally
+  enableReplayDrop(world);
+
   // Plant
   const { scene: plantMesh } = AssetManager.getGLTF("plantSansevieria")!;
   plantMesh.position.set(1.2, 0.85, -1.8);
   world.createTransformEntity(plantMesh)
+    .addComponent(HideInAR)
     .addComponent(Interactable)
     .addComponent(DistanceGrabbable, { movementMode: MovementMode.MoveFromTarget });
 
@@ -206,7 +204,7 @@ World.create(document.getElementById("scene-container") as HTMLDivElement, {
     new PlaneGeometry(3.39, 0.96),
     new MeshBasicMaterial({ map: webxrLogoTexture, transparent: true })
   );
-  world.createTransformEntity(logoBanner);
+  world.createTransformEntity(logoBanner).addComponent(HideInAR);
   logoBanner.position.set(0, 1, 1.8);
   logoBanner.rotateY(Math.PI);
 
@@ -214,10 +212,19 @@ World.create(document.getElementById("scene-container") as HTMLDivElement, {
   world
     .registerSystem(PanelSystem)
     .registerSystem(ReplayPanelSystem)
+    .registerSystem(CalibrationSystem)
+    .registerSystem(TabletopSystem)
     .registerSystem(RobotSystem);
     
-  // Desktop keyboard movement (WASD + Space/Shift)
+  // Desktop keyboard movement (WASD + Space/Shift), paused while a spectator mode drives the camera
   world.registerSystem(KeyboardMovementSystem);
+  world.registerSystem(SpectatorSystem);
+  // Two-hand / wheel and drag resizing and turning of the map, reset view and spin toggle
+  world.registerSystem(MapViewSystem);
+  // Strokes, arrows and pins drawn on the map, saved with relay replays
+  world.registerSystem(TelestrationSystem);
+  // Shared spectating room (?room=<id>); after the systems whose state it shares or copies
+  world.registerSystem(RoomSystem);
 
   window.addEventListener('beforeunload', () => {
     currentVisualizer?.destroy();
@@ -1,5 +1,6 @@
 import { createSystem } from "@iwsdk/core";
 import { Vector3 } from "@iwsdk/core";
+import type { SpectatorSystem } from "./spectator";
 
 export class KeyboardMovementSystem extends createSystem({}) {
   private keys: Set<string> = new Set();
@@ -23,6 +24,8 @@ export class KeyboardMovementSystem extends createSystem({}) {
 
   update(delta: number) {
     if (!this.enabled) return;
+    const spectator = this.globals.spectator as SpectatorSystem | undefined;
+    if (spectator && spectator.mode !== "free") return;
 
     const camera: any = this.world.camera;
     if (!camera) return;
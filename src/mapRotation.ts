@@ -10,6 +10,7 @@ const AXES = {
 export const Rotation = createComponent("Rotation", {
   speed: { type: Types.Float32, default: 0.05 },
   axis: { type: Types.Enum, enum: AXES, default: AXES.Y },
+  paused: { type: Types.Boolean, default: false },
 });
 
 export class MapRotationSystem extends createSystem({
@@ -18,7 +19,7 @@ export class MapRotationSystem extends createSystem({
   update(delta: number): void {
     this.queries.rotatingEntities.entities.forEach((entity) => {
       const mesh = entity.object3D;
-      if (!mesh || !mesh.visible) return;
+      if (!mesh || !mesh.visible || entity.getValue(Rotation, "paused")) return;
 
       const speed = entity.getValue(Rotation, "speed") as number;
       const axis = entity.getValue(Rotation, "axis") as keyof typeof AXES;
@@ -0,0 +1,201 @@
+// src/mapView.ts
+import * as THREE from "three";
+import { createSystem, InputComponent, VisibilityState } from "@iwsdk/core";
+
+import { Rotation } from "./mapRotation";
+import type { MapManager } from "./maps/mapManager";
+import type { SpectatorSystem } from "./spectator";
+import type { TabletopSystem } from "./tabletop/TabletopSystem";
+
+// Scale limits, as multiples of the map's configured scale
+const MIN_SCALE_FACTOR = 0.25;
+const MAX_SCALE_FACTOR = 20;
+
+const WHEEL_ZOOM = 0.0015;        // Scale changes by e^(this × wheel delta in pixels)
+const DRAG_ROTATE = 0.01;         // Radians per pixel of right-button drag
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Where a two-handed gesture started: both grips and the map's pose at that moment
+interface Gesture {
+  mesh: THREE.Object3D;
+  midpoint: THREE.Vector3;
+  distance: number;
+  yaw: number;
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  scale: number;
+}
+
+/**
+ * Resizes and turns the map hologram: squeeze both controllers and pull them apart,
+ * push them together or twist them in XR; mouse wheel and right-drag on desktop.
+ * The map only turns about the vertical axis so it stays level. R resets the view,
+ * P pauses or resumes the automatic spin.
+ */
+export class MapViewSystem extends createSystem({}) {
+  private gesture?: Gesture;
+  private dragX?: number;
+
+  private left = new THREE.Vector3();
+  private right = new THREE.Vector3();
+  private midpoint = new THREE.Vector3();
+  private pivot = new THREE.Vector3();
+  private offset = new THREE.Vector3();
+  private turn = new THREE.Quaternion();
+
+  private get mapManager(): MapManager | undefined {
+    return this.globals.mapManager;
+  }
+
+  /** False while the current map's automatic spin is paused. */
+  get isSpinning(): boolean {
+    const entity = this.mapManager?.current?.entity;
+    return !!entity?.hasComponent(Rotation) && !entity.getValue(Rotation, "paused");
+  }
+
+  init() {
+    this.globals.mapView = this;
+    const canvas = this.world.renderer.domElement;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code === "KeyR") this.resetView();
+      if (e.code === "KeyP") this.toggleSpin();
+    };
+    const onWheel = (e: WheelEvent) => {
+      if (this.immersive) return;
+      e.preventDefault();
+      this.transformAbout(this.mapCentre(), Math.exp(-e.deltaY * WHEEL_ZOOM), 0);
+    };
+    const onPointerDown = (e: PointerEvent) => {
+      if (e.button !== 2 || this.immersive) return;
+      this.dragX = e.clientX;
+      canvas.setPointerCapture(e.pointerId);
+    };
+    const onPointerMove = (e: PointerEvent) => {
+      if (this.dragX === undefined) return;
+      this.transformAbout(this.mapCentre(), 1, (e.clientX - this.dragX) * DRAG_ROTATE);
+      this.dragX = e.clientX;
+    };
+    const onPointerUp = (e: PointerEvent) => {
+      if (e.button !== 2) return;
+      this.dragX = undefined;
+    };
+    // Right-drag turns the map, so the browser menu stays out of the way
+    const onContextMenu = (e: MouseEvent) => e.preventDefault();
+
+    window.addEventListener("keydown", onKeyDown);
+    canvas.addEventListener("wheel", onWheel, { passive: false });
+    canvas.addEventListener("pointerdown", onPointerDown);
+    canvas.addEventListener("pointermove", onPointerMove);
+    canvas.addEventListener("pointerup", onPointerUp);
+    canvas.addEventListener("contextmenu", onContextMenu);
+    this.cleanupFuncs.push(() => {
+      window.removeEventListener("keydown", onKeyDown);
+      canvas.removeEventListener("wheel", onWheel);
+      canvas.removeEventListener("pointerdown", onPointerDown);
+      canvas.removeEventListener("pointermove", onPointerMove);
+      canvas.removeEventListener("pointerup", onPointerUp);
+      canvas.removeEventListener("contextmenu", onContextMenu);
+    });
+  }
+
+  update() {
+    const mesh = this.mapManager?.current?.mesh;
+    const spectator = this.globals.spectator as SpectatorSystem | undefined;
+    // In XR the spectator modes place the map themselves
+    const squeezing = this.immersive && (!spectator || spectator.mode === "free")
+      && !!this.input.gamepads.left?.getButtonPressed(InputComponent.Squeeze)
+      && !!this.input.gamepads.right?.getButtonPressed(InputComponent.Squeeze);
+
+    if (!mesh || !squeezing) {
+      this.gesture = undefined;
+      return;
+    }
+
+    this.player.gripSpaces.left.getWorldPosition(this.left);
+    this.player.gripSpaces.right.getWorldPosition(this.right);
+    this.midpoint.addVectors(this.left, this.right).multiplyScalar(0.5);
+    this.offset.subVectors(this.right, this.left);
+    const distance = this.offset.length();
+    const yaw = Math.atan2(this.offset.x, this.offset.z);
+
+    if (this.gesture?.mesh !== mesh) {
+      this.gesture = {
+        mesh,
+        midpoint: this.midpoint.clone(),
+        distance,
+        yaw,
+        position: mesh.getWorldPosition(new THREE.Vector3()),
+        quaternion: mesh.quaternion.clone(),
+        scale: mesh.scale.x,
+      };
+      return;
+    }
+
+    // Whatever was under the hands' midpoint stays under it as they move, pull apart and twist
+    const start = this.gesture;
+    const scale = this.clampScale(start.scale * distance / Math.max(start.distance, 1e-3));
+    this.turn.setFromAxisAngle(UP, yaw - start.yaw);
+    this.offset.subVectors(start.position, start.midpoint)
+      .multiplyScalar(scale / start.scale)
+      .applyQuaternion(this.turn)
+      .add(this.midpoint);
+    this.setPose(mesh, this.offset, this.turn.multiply(start.quaternion), scale);
+  }
+
+  /** Puts the current map back at its configured position, heading and scale. */
+  resetView() {
+    const map = this.mapManager?.current;
+    if (!map) return;
+    this.gesture = undefined;
+    map.mesh.position.copy(map.config.position);
+    map.mesh.quaternion.identity();
+    map.mesh.scale.setScalar(map.config.scale);
+    // On a real table the map goes back onto the placed surface rather than into mid-room
+    (this.globals.tabletop as TabletopSystem | undefined)?.reseat();
+  }
+
+  toggleSpin() {
+    const entity = this.mapManager?.current?.entity;
+    if (entity?.hasComponent(Rotation)) entity.setValue(Rotation, "paused", this.isSpinning);
+  }
+
+  private get immersive(): boolean {
+    return this.world.visibilityState.value !== VisibilityState.NonImmersive;
+  }
+
+  private clampScale(scale: number): number {
+    const base = this.mapManager!.current!.config.scale;
+    return THREE.MathUtils.clamp(scale, base * MIN_SCALE_FACTOR, base * MAX_SCALE_FACTOR);
+  }
+
+  // Middle of the playable area, in world space
+  private mapCentre(): THREE.Vector3 {
+    const map = this.mapManager?.current;
+    if (!map) return this.pivot.set(0, 0, 0);
+    map.mesh.updateWorldMatrix(true, false);
+    return map.mesh.localToWorld(map.config.boundingBox.getCenter(this.pivot));
+  }
+
+  // Scales by `factor` (within the limits) and turns by `yaw` about a fixed world point
+  private transformAbout(pivot: THREE.Vector3, factor: number, yaw: number) {
+    const mesh = this.mapManager?.current?.mesh;
+    if (!mesh) return;
+    const scale = this.clampScale(mesh.scale.x * factor);
+    this.turn.setFromAxisAngle(UP, yaw);
+    this.offset.subVectors(mesh.getWorldPosition(this.offset), pivot)
+      .multiplyScalar(scale / mesh.scale.x)
+      .applyQuaternion(this.turn)
+      .add(pivot);
+    this.setPose(mesh, this.offset, this.turn.multiply(mesh.quaternion), scale);
+  }
+
+  private setPose(mesh: THREE.Object3D, worldPosition: THREE.Vector3, quaternion: THREE.Quaternion, scale: number) {
+    mesh.position.copy(worldPosition);
+    mesh.parent?.updateWorldMatrix(true, false);
+    mesh.parent?.worldToLocal(mesh.position);
+    mesh.quaternion.copy(quaternion);
+    mesh.scale.setScalar(scale);
+  }
+}
@@ -2,13 +2,30 @@ import * as THREE from 'three';
 import { MapConfig } from '../types';
 
 const BigCityMap: MapConfig = {
+  id: 'bigCity',
+  name: 'gm_bigcity',
+  adapter: 'gmod',
   meshKey: 'bigCity',
+  assetUrl: 'gltf/BigCity/BigcityV1.glb',
   position: new THREE.Vector3(0, 0.9, -2),
   scale: 0.01,
   boundingBox: new THREE.Box3(
-    new THREE.Vector3(-85, -2, -75),
-    new THREE.Vector3(85, 100, 95)
-  )
+    new THREE.Vector3(-80, -2, -70),
+    new THREE.Vector3(80, 100, 90)
+  ).expandByScalar(2),
+  // Fitted by hand against known gm_bigcity landmarks
+  transform: {
+    matrix: [
+      0.00646297824, -0.000079977569, 0.000127492645,
+      0.00000378432681, 0.0000487270525, 0.00630588861,
+      0.000169270224, -0.00659015663, 0.000106918946,
+    ],
+    offset: [0.73352882, 68.92531057, 8.32454724],
+  },
+  visualizer: {
+    showBounds: true,
+    labelFontSize: 0.1,
+  },
 };
 
 export default BigCityMap;
@@ -1,6 +1,32 @@
-import BigCityMap from "./BigCityMap";
+import { MapConfig, MapTransform } from "../types";
+import { loadCalibration } from "../calibration/calibrationStore";
 
-export const allMaps = {
-  bigCity: BigCityMap,
+// Every `*Map.ts` file in this folder registers itself by default-exporting a MapConfig
+const modules = import.meta.glob<{ default: MapConfig }>("./*Map.ts", { eager: true });
 
-};
+export const allMaps: Record<string, MapConfig> = Object.fromEntries(
+  Object.values(modules).map(({ default: map }) => [
+    map.id,
+    { ...map, transform: loadCalibration(map.id) ?? map.transform },
+  ])
+);
+
+// As written in the map files, for resetting a saved calibration
+const fileTransforms = new Map(Object.values(modules).map(({ default: map }) => [map.id, map.transform]));
+
+export const mapIds = Object.keys(allMaps).sort();
+
+export const DEFAULT_MAP_ID = "bigCity";
+
+export function getMap(id: string): MapConfig {
+  const map = allMaps[id];
+  if (!map) throw new Error(`Unknown map "${id}"`);
+  return map;
+}
+
+/** The transform in the map's own file, ignoring any saved calibration. */
+export function getFileTransform(id: string): MapTransform {
+  const transform = fileTransforms.get(id);
+  if (!transform) throw new Error(`Unknown map "${id}"`);
+  return transform;
+}
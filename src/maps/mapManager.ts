@@ -0,0 +1,86 @@
+import * as THREE from "three";
+import {
+  AssetManager,
+  DistanceGrabbable,
+  Entity,
+  Interactable,
+  MovementMode,
+  World,
+} from "@iwsdk/core";
+
+import { Rotation } from "../mapRotation";
+import { MapConfig } from "../types";
+import { getMap, mapIds } from "./index";
+
+export interface LoadedMap {
+  config: MapConfig;
+  mesh: THREE.Group;
+  entity: Entity;
+}
+
+// Loads map holograms on first use and keeps exactly one of them visible
+export class MapManager {
+  private loaded = new Map<string, LoadedMap>();
+  private currentId?: string;
+  private switching = false;
+
+  constructor(
+    private world: World,
+    private onChange: (map: LoadedMap) => void
+  ) {}
+
+  get current(): LoadedMap | undefined {
+    return this.currentId ? this.loaded.get(this.currentId) : undefined;
+  }
+
+  async show(id: string): Promise<LoadedMap | undefined> {
+    // Ignore repeated key presses while a large GLB is still downloading
+    if (this.switching) return undefined;
+    this.switching = true;
+
+    try {
+      const map = await this.load(id);
+      this.loaded.forEach((m, key) => { m.mesh.visible = key === id; });
+      this.currentId = id;
+      this.onChange(map);
+      return map;
+    } finally {
+      this.switching = false;
+    }
+  }
+
+  /** Re-run onChange for the current map, e.g. after its transform was recalibrated. */
+  refresh(): void {
+    const map = this.current;
+    if (map) this.onChange(map);
+  }
+
+  next(): Promise<LoadedMap | undefined> {
+    const index = this.currentId ? mapIds.indexOf(this.currentId) : -1;
+    return this.show(mapIds[(index + 1) % mapIds.length]);
+  }
+
+  private async load(id: string): Promise<LoadedMap> {
+    const existing = this.loaded.get(id);
+    if (existing) return existing;
+
+    const config = getMap(id);
+    const gltf = AssetManager.getGLTF(config.meshKey)
+      ?? await AssetManager.loadGLTF(config.assetUrl, config.meshKey);
+
+    const mesh = gltf.scene;
+    mesh.position.copy(config.position);
+    mesh.scale.setScalar(config.scale);
+    mesh.updateMatrixWorld(true);
+
+    const entity = this.world.createTransformEntity(mesh)
+      .addComponent(Interactable)
+      .addComponent(DistanceGrabbable, { movementMode: MovementMode.MoveFromTarget })
+      .addComponent(Rotation, { speed: 0.05, axis: "Y" });
+
+    const map = { config, mesh, entity };
+    this.loaded.set(id, map);
+    console.log(`Loaded map ${config.name}`);
+    return map;
+  }
+}
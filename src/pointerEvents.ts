@@ -0,0 +1,12 @@
+// src/pointerEvents.ts
+import type * as THREE from "three";
+import type { Entity } from "@iwsdk/core";
+
+// An entity's Object3D. Its event map has the pointer events IWSDK dispatches for XR rays
+// and the mouse, so listeners on it are typed; a plain THREE.Object3D's map has none of them
+export type PointerTarget = NonNullable<Entity["object3D"]>;
+
+/** The part of a pointer event the map tools read: where the ray hit, in world space. */
+export interface PointerHit {
+  point: THREE.Vector3;
+}
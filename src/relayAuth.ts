@@ -0,0 +1,47 @@
+const STORAGE_KEY = 'flowz.relayToken';
+
+// The relay token (a control token for operators, a view token for viewers) is kept
+// per browser rather than bundled, so a public build never ships a secret
+
+export function getRelayToken(): string | undefined {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function setRelayToken(token: string | undefined): void {
+  if (token) localStorage.setItem(STORAGE_KEY, token);
+  else localStorage.removeItem(STORAGE_KEY);
+}
+
+export function authHeaders(token = getRelayToken()): Record<string, string> {
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+let prompted = false;
+let canPrompt = () => true;
+
+/** Tells relayFetch when a browser prompt would actually show (not inside an immersive session). */
+export function setTokenPromptCheck(check: () => boolean): void {
+  canPrompt = check;
+}
+
+/**
+ * fetch() with the stored relay token. On the first 401 of the page load, outside
+ * XR, it asks for a token and retries; after that a 401 is returned to the caller,
+ * so pollers don't reopen the prompt every time (reload to enter another token).
+ */
+export async function relayFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => fetch(url, { ...init, headers: { ...init.headers, ...authHeaders() } });
+
+  const res = await send();
+  if (res.status !== 401 || prompted || !canPrompt()) return res;
+
+  prompted = true;
+  const token = window.prompt('Relay token');
+  if (!token) return res;
+  setRelayToken(token.trim());
+  return send();
+}
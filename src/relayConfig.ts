@@ -0,0 +1,2 @@
+// Relay base URL, e.g. VITE_RELAY_URL=http://localhost:3000 in .env.local for a local relay
+export const RELAY_URL: string = (import.meta.env.VITE_RELAY_URL ?? "https://flowz-iwsdk-dev.onrender.com").replace(/\/$/, "");
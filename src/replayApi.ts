@@ -1,19 +1,177 @@
-const BASE_URL = "https://flowz-iwsdk-dev.onrender.com";
+import type { ReplayFrame } from "./Visualizer/types";
+import { formatIssues, normalizePacket } from "../shared/telemetry.js";
+import type { RecordedFrame } from "../shared/replayFormat.js";
+import type { Annotation } from "../shared/annotations.js";
+import {
+  ROUTES,
+  routePath,
+  RouteDefinition,
+  RecordingClipped,
+  RecordingSchedule,
+  RecordingStarted,
+  RecordingStatus,
+  RecordingStopped,
+  RecordingTrigger,
+  RelayErrorBody,
+  ReplayAnnotations,
+  ReplayDeleted,
+  ReplayImported,
+  ReplaySummary,
+  SessionSummary,
+} from "../shared/routes.js";
+import { relayFetch } from "./relayAuth";
 
-export async function startReplayRecording() {
-  await fetch(`${BASE_URL}/replay/start`, { method: "POST" });
+export type {
+  RecordingSchedule,
+  RecordingStatus,
+  RecordingTrigger,
+  ReplaySummary,
+  SessionSummary,
+} from "../shared/routes.js";
+
+export interface TriggerOptions {
+  duration?: number;              // seconds; omit to record until players drop below minPlayers
+  preRoll?: number;               // seconds from before the trigger to keep
+  cooldown?: number;              // seconds before the trigger may fire again
+  map?: string;
+}
+
+/** A relay request that failed; `message` is suitable for showing on a panel. */
+export class ReplayApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,          // 0 when the relay couldn't be reached
+    readonly route: RouteDefinition
+  ) {
+    super(message);
+    this.name = "ReplayApiError";
+  }
 }
 
-export async function stopReplayRecording() {
-  await fetch(`${BASE_URL}/replay/stop`, { method: "POST" });
+interface RequestOptions {
+  params?: Record<string, string>;
+  query?: Record<string, string | undefined>;
+  json?: unknown;
+  text?: string;
 }
 
-export async function listReplays() {
-  const res = await fetch(`${BASE_URL}/replay/list`);
-  return res.json();
+// Typed client for the relay's recording and replay routes (shared/routes.js)
+export class ReplayApi {
+  constructor(private baseUrl: string) {}
+
+  /** `duration` (seconds) stops the recording automatically. */
+  startRecording(session: string, map?: string, duration?: number): Promise<RecordingStarted> {
+    return this.request(ROUTES.recordStart, { query: { session }, json: { map, duration } });
+  }
+
+  stopRecording(session: string): Promise<RecordingStopped> {
+    return this.request(ROUTES.recordStop, { query: { session } });
+  }
+
+  recordingStatus(session: string): Promise<RecordingStatus> {
+    return this.request(ROUTES.recordStatus, { query: { session } });
+  }
+
+  /** Save the last `seconds` the relay buffered for the session as a replay. */
+  clip(session: string, seconds: number, map?: string, name?: string): Promise<RecordingClipped> {
+    return this.request(ROUTES.recordClip, { query: { session }, json: { seconds, map, name } });
+  }
+
+  /** Record `duration` seconds starting at `startAt` (ms since epoch). */
+  scheduleRecording(session: string, startAt: number, duration: number, map?: string): Promise<RecordingSchedule> {
+    return this.request(ROUTES.recordSchedules, { query: { session }, json: { startAt, duration, map } });
+  }
+
+  cancelSchedule(session: string, id: string): Promise<ReplayDeleted> {
+    return this.request(ROUTES.recordSchedule, { query: { session }, params: { id } });
+  }
+
+  /** Record whenever at least `minPlayers` are active in the session. */
+  addTrigger(session: string, minPlayers: number, options: TriggerOptions = {}): Promise<RecordingTrigger> {
+    return this.request(ROUTES.recordTriggers, { query: { session }, json: { minPlayers, ...options } });
+  }
+
+  removeTrigger(session: string, id: string): Promise<ReplayDeleted> {
+    return this.request(ROUTES.recordTrigger, { query: { session }, params: { id } });
+  }
+
+  listSessions(): Promise<SessionSummary[]> {
+    return this.request(ROUTES.sessions);
+  }
+
+  /** Newest first; pass a session to only list its recordings. */
+  listReplays(session?: string): Promise<ReplaySummary[]> {
+    return this.request(ROUTES.replays, { query: { session } });
+  }
+
+  async loadReplay(id: string): Promise<ReplayFrame[]> {
+    const frames: RecordedFrame[] = await this.request(ROUTES.replay, { params: { id } });
+    return normalizeReplayFrames(frames, id);
+  }
+
+  renameReplay(id: string, name: string): Promise<ReplaySummary> {
+    return this.request(ROUTES.replayRename, { params: { id }, json: { name } });
+  }
+
+  async loadAnnotations(id: string): Promise<Annotation[]> {
+    const { annotations }: ReplayAnnotations = await this.request(ROUTES.replayAnnotations, { params: { id } });
+    return annotations;
+  }
+
+  /** Replaces everything drawn on the replay. */
+  saveAnnotations(id: string, annotations: Annotation[]): Promise<ReplayAnnotations> {
+    return this.request(ROUTES.replayAnnotationsSave, { params: { id }, json: { annotations } });
+  }
+
+  deleteReplay(id: string): Promise<ReplayDeleted> {
+    return this.request(ROUTES.replayDelete, { params: { id } });
+  }
+
+  /** Upload a .flowz file so it shows up in the relay's list. */
+  importReplay(text: string): Promise<ReplayImported> {
+    return this.request(ROUTES.replayImport, { text });
+  }
+
+  private url(route: RouteDefinition, { params, query }: RequestOptions): string {
+    const url = new URL(this.baseUrl + routePath(route, params));
+    Object.entries(query ?? {}).forEach(([key, value]) => {
+      if (value !== undefined) url.searchParams.set(key, value);
+    });
+    return url.toString();
+  }
+
+  private async request<T>(route: RouteDefinition, options: RequestOptions = {}): Promise<T> {
+    const headers: Record<string, string> = {};
+    let body: string | undefined;
+    if (options.json !== undefined) {
+      headers["Content-Type"] = "application/json";
+      body = JSON.stringify(options.json);
+    } else if (options.text !== undefined) {
+      headers["Content-Type"] = "text/plain";
+      body = options.text;
+    }
+
+    let res: Response;
+    try {
+      res = await relayFetch(this.url(route, options), { method: route.method, headers, body });
+    } catch {
+      throw new ReplayApiError("Relay unreachable", 0, route);
+    }
+
+    if (!res.ok) {
+      // The relay answers errors with { error }; proxies and crashes may not
+      const detail = await res.json().then((b: RelayErrorBody) => b.error, () => undefined);
+      throw new ReplayApiError(detail ?? `${route.method} ${route.path} failed (HTTP ${res.status})`, res.status, route);
+    }
+    return res.json();
+  }
 }
 
-export async function loadReplay(id: string) {
-  const res = await fetch(`${BASE_URL}/replay/${id}`);
-  return res.json();
+// Recordings keep whatever shape was current when they were made
+export function normalizeReplayFrames(frames: RecordedFrame[], source: string): ReplayFrame[] {
+  return frames.map((frame, i) => {
+    const { packet, errors } = normalizePacket({ players: frame.players });
+    if (errors.length) console.warn(`[Replay] ${source} frame ${i}: ${formatIssues(errors)}`);
+    return { t: frame.t, players: packet?.players ?? [] };
+  });
 }
@@ -0,0 +1,53 @@
+import type { World } from "@iwsdk/core";
+
+import type { MapManager } from "./maps/mapManager";
+import type { PlayerVisualizer } from "./Visualizer/PlayerVisualizer";
+import type { TelestrationSystem } from "./annotations/TelestrationSystem";
+import { mapIds } from "./maps";
+import { normalizeReplayFrames } from "./replayApi";
+import { decodeReplay } from "../shared/replayFormat.js";
+import { readAnnotations } from "../shared/annotations.js";
+
+/**
+ * Play .flowz files dropped onto the page, without going through the relay.
+ * Switches to the replay's map first when it is one we know.
+ * Returns a function that removes the listeners.
+ */
+export function enableReplayDrop(world: World): () => void {
+  const onDragOver = (e: DragEvent) => {
+    if (!e.dataTransfer?.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+  };
+
+  const onDrop = async (e: DragEvent) => {
+    const file = e.dataTransfer?.files[0];
+    if (!file) return;
+    e.preventDefault();
+
+    try {
+      const { header, frames } = decodeReplay(await file.text());
+
+      const mapManager = world.globals.mapManager as MapManager | undefined;
+      if (header.map && mapIds.includes(header.map) && mapManager?.current?.config.id !== header.map) {
+        await mapManager?.show(header.map);
+      }
+
+      const visualizer = world.globals.visualizer as PlayerVisualizer | undefined;
+      if (!visualizer) return;
+      // Shown with the replay, but not saved anywhere: the file isn't on the relay
+      (world.globals.telestration as TelestrationSystem | undefined)?.showWithNextReplay(readAnnotations(header.annotations));
+      visualizer.playReplay(normalizeReplayFrames(frames, file.name), header.adapter);
+      console.log(`[Replay] Playing ${file.name} (${header.frameCount} frames, ${(header.duration / 1000).toFixed(1)}s)`);
+    } catch (err) {
+      console.error(`[Replay] Could not read ${file.name}:`, err);
+    }
+  };
+
+  window.addEventListener("dragover", onDragOver);
+  window.addEventListener("drop", onDrop);
+  return () => {
+    window.removeEventListener("dragover", onDragOver);
+    window.removeEventListener("drop", onDrop);
+  };
+}
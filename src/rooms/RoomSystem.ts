@@ -0,0 +1,370 @@
+import * as THREE from "three";
+import { createSystem, VisibilityState } from "@iwsdk/core";
+
+import type { RoomParticipant, RoomServerMessage, ViewState } from "../../shared/rooms.js";
+import type { MapManager } from "../maps/mapManager";
+import { mapIds } from "../maps";
+import type { PointerHit, PointerTarget } from "../pointerEvents";
+import type { ReplayPanelSystem } from "../ReplayPanelSystem";
+import { getRelayToken } from "../relayAuth";
+import { RELAY_URL } from "../relayConfig";
+import { SPECTATOR_MODES, type SpectatorMode, type SpectatorSystem } from "../spectator";
+import type { TabletopSystem } from "../tabletop/TabletopSystem";
+import type { PlayerVisualizer } from "../Visualizer/PlayerVisualizer";
+import { ROOM, ROOM_NAME } from "./roomConfig";
+import { RoomClient, roomUrl } from "./roomClient";
+
+const VIEW_INTERVAL_MS = 100;       // Host view updates at most this often…
+const POINTER_INTERVAL_MS = 100;    // …and so do pointer hits
+const REPLAY_DRIFT_MS = 500;        // A follower's replay is re-seeked once it is this far off the host's
+const POSITION_SMOOTHING = 8;       // 1/s; hides the gaps between view updates
+const MAP_RETRY_MS = 1000;          // First retry after the host's map fails to load; doubles each time…
+const MAP_RETRY_MAX_MS = 30000;     // …up to this
+const MARKER_RADIUS = 0.012;        // Metres, whatever the map is scaled to
+
+/**
+ * Shared spectating room (?room=<id>): while hosting, the map pose, spectator mode and
+ * player, session and replay position are sent to the relay; otherwise the host's are
+ * copied. Everyone's pointer hit on the map is shared and shown as a marker in their colour.
+ */
+export class RoomSystem extends createSystem({}) {
+  private client?: RoomClient;
+  private connected = false;
+  private selfId?: string;
+  private hostId?: string;
+  private participants = new Map<string, RoomParticipant>();
+
+  private view?: { state: ViewState; receivedAt: number };
+  private lastViewSent = 0;
+  private lastViewJson = "";
+  private requestedReplay?: string;
+  private loadingMap = false;
+  private mapRetry?: { map: string; at: number; delay: number };
+
+  // This viewer's pointer hit, in map-local coordinates; null once it left the map
+  private pointerMesh?: PointerTarget;
+  private pointer: THREE.Vector3 | null = null;
+  private pointerDirty = false;
+  private lastPointerSent = 0;
+
+  private markers = new Map<string, THREE.Mesh>();   // Participant id → marker
+  private markerGeometry = new THREE.SphereGeometry(1, 16, 12);
+
+  private position = new THREE.Vector3();
+  private quaternion = new THREE.Quaternion();
+  private scale = new THREE.Vector3();
+
+  private onPointerMove = (e: PointerHit) => {
+    if (!this.pointerMesh) return;
+    this.pointer = this.pointerMesh.worldToLocal(e.point.clone());
+    this.pointerDirty = true;
+  };
+
+  private onPointerLeave = () => {
+    this.pointer = null;
+    this.pointerDirty = true;
+  };
+
+  private get mapManager(): MapManager | undefined {
+    return this.globals.mapManager;
+  }
+
+  private get visualizer(): PlayerVisualizer | undefined {
+    return this.globals.visualizer;
+  }
+
+  private get spectator(): SpectatorSystem | undefined {
+    return this.globals.spectator;
+  }
+
+  /** Joined a room with ?room=<id>. */
+  get isActive(): boolean {
+    return !!this.client;
+  }
+
+  get isHost(): boolean {
+    return this.connected && !!this.selfId && this.selfId === this.hostId;
+  }
+
+  /** One line for the panel, e.g. "coach · Following Sam · 3 here". */
+  get status(): string {
+    if (!this.connected) return `${ROOM} · Connecting…`;
+    const role = this.isHost ? "Hosting" : `Following ${this.participants.get(this.hostId ?? "")?.name ?? "…"}`;
+    return `${ROOM} · ${role} · ${this.participants.size} here`;
+  }
+
+  init() {
+    this.globals.room = this;
+    const room = ROOM;
+    if (!room) return;
+
+    this.client = new RoomClient(
+      () => roomUrl(RELAY_URL, room, ROOM_NAME, getRelayToken()),
+      (message) => this.receive(message),
+      (open) => {
+        this.connected = open;
+        if (!open) this.clearMarkers();
+      }
+    );
+    this.client.connect();
+
+    this.cleanupFuncs.push(() => {
+      this.client?.close();
+      this.attachPointer(undefined);
+      this.clearMarkers();
+      this.markerGeometry.dispose();
+    });
+  }
+
+  /** Make this viewer the one everyone else follows. */
+  claimHost() {
+    this.client?.send({ type: "claimHost" });
+  }
+
+  update(delta: number) {
+    if (!this.client) return;
+    const map = this.mapManager?.current;
+    this.attachPointer(map?.entity.object3D);
+
+    if (this.isHost) {
+      this.shareView();
+    } else if (this.view && map) {
+      this.followView(map.mesh, map.config.id, delta);
+    }
+
+    this.sendPointer();
+    this.updateMarkers();
+  }
+
+  private receive(message: RoomServerMessage) {
+    switch (message.type) {
+      case "welcome":
+        this.selfId = message.id;
+        this.hostId = message.host;
+        this.participants = new Map(message.participants.map(p => [p.id, p]));
+        this.view = message.view ? { state: message.view, receivedAt: performance.now() } : undefined;
+        this.lastViewJson = "";
+        this.clearMarkers();
+        console.log(`[Room] Joined ${message.room} as ${this.participants.get(message.id)?.name}`);
+        break;
+      case "joined":
+        this.participants.set(message.participant.id, message.participant);
+        break;
+      case "left":
+        this.participants.delete(message.id);
+        this.removeMarker(message.id);
+        break;
+      case "host":
+        this.hostId = message.id;
+        // A new host starts from their own view, so send it even if it hasn't changed
+        this.lastViewJson = "";
+        break;
+      case "view":
+        this.view = { state: message.view, receivedAt: performance.now() };
+        break;
+      case "pointer":
+        this.setMarker(message.id, message.map, message.point);
+        break;
+    }
+  }
+
+  // ---------- Hosting ----------
+
+  private shareView() {
+    const now = performance.now();
+    if (now - this.lastViewSent < VIEW_INTERVAL_MS) return;
+    const view = this.currentView();
+    if (!view) return;
+
+    const json = JSON.stringify(view);
+    if (json === this.lastViewJson) return;
+    this.lastViewJson = json;
+    this.lastViewSent = now;
+    this.client!.send({ type: "view", view });
+  }
+
+  private currentView(): ViewState | undefined {
+    const map = this.mapManager?.current;
+    const visualizer = this.visualizer;
+    if (!map || !visualizer) return undefined;
+
+    const replay = visualizer.replayPlayer;
+    const replayId = (this.globals.replayPanel as ReplayPanelSystem | undefined)?.loadedReplayId;
+    map.mesh.getWorldPosition(this.position);
+
+    return {
+      map: map.config.id,
+      session: visualizer.session,
+      position: this.position.toArray(),
+      quaternion: map.mesh.quaternion.toArray() as ViewState["quaternion"],
+      scale: map.mesh.scale.x,
+      camera: { mode: this.spectator?.mode ?? "free", target: this.spectator?.target ?? null },
+      replay: replay && replayId
+        ? { id: replayId, time: Math.round(replay.currentTime), speed: replay.playbackSpeed, playing: replay.isPlaying }
+        : null,
+    };
+  }
+
+  // ---------- Following ----------
+
+  private followView(mesh: THREE.Object3D, mapId: string, delta: number) {
+    const { state, receivedAt } = this.view!;
+
+    if (mapId !== state.map) {
+      if (mapIds.includes(state.map)) this.showMap(state.map);
+      return;
+    }
+    const visualizer = this.visualizer;
+    if (visualizer && visualizer.session !== state.session) {
+      // index.ts reads this when rebuilding the visualizer
+      this.globals.session = state.session;
+      this.mapManager!.refresh();
+      return;
+    }
+
+    this.followReplay(state.replay, receivedAt);
+    this.followCamera(state.camera);
+    this.followTransform(mesh, state, delta);
+  }
+
+  // A map that fails to load (e.g. offline) is retried with backoff, not every frame
+  private showMap(id: string) {
+    const retry = this.mapRetry?.map === id ? this.mapRetry : undefined;
+    if (this.loadingMap || (retry && performance.now() < retry.at)) return;
+
+    this.loadingMap = true;
+    this.mapManager!.show(id)
+      .then(() => { this.mapRetry = undefined; })
+      .catch((e) => {
+        const delay = retry ? Math.min(retry.delay * 2, MAP_RETRY_MAX_MS) : MAP_RETRY_MS;
+        this.mapRetry = { map: id, at: performance.now() + delay, delay };
+        console.warn(`[Room] Could not load map "${id}" → retrying in ${delay / 1000}s`, e);
+      })
+      .finally(() => { this.loadingMap = false; });
+  }
+
+  private followReplay(replay: ViewState["replay"], receivedAt: number) {
+    const panel = this.globals.replayPanel as ReplayPanelSystem | undefined;
+    const visualizer = this.visualizer;
+    if (!panel || !visualizer) return;
+
+    if (!replay) {
+      this.requestedReplay = undefined;
+      if (visualizer.replayPlayer) panel.exitReplay();
+      return;
+    }
+    if (panel.loadedReplayId !== replay.id) {
+      // Once per replay; a failed load is toasted by the panel, not retried every frame
+      if (this.requestedReplay !== replay.id) {
+        this.requestedReplay = replay.id;
+        panel.playReplayById(replay.id);
+      }
+      return;
+    }
+    // Loaded; if a map switch drops it, it is fetched again
+    this.requestedReplay = undefined;
+
+    const player = visualizer.replayPlayer!;
+    if (player.playbackSpeed !== replay.speed) player.setSpeed(replay.speed);
+    if (player.isPlaying !== replay.playing) {
+      if (replay.playing) player.play();
+      else player.pause();
+    }
+    const expected = replay.time + (replay.playing ? (performance.now() - receivedAt) * replay.speed : 0);
+    if (Math.abs(player.currentTime - expected) > REPLAY_DRIFT_MS) visualizer.seekReplay(expected);
+  }
+
+  private followCamera(camera: ViewState["camera"]) {
+    const spectator = this.spectator;
+    const mode = camera.mode as SpectatorMode;
+    if (!spectator || !SPECTATOR_MODES.includes(mode)) return;
+
+    spectator.setTarget(camera.target ?? undefined);
+    if (spectator.mode !== mode) spectator.setMode(mode);
+  }
+
+  private followTransform(mesh: THREE.Object3D, state: ViewState, delta: number) {
+    // In XR the spectator modes place the map around the viewer themselves
+    const immersive = this.world.visibilityState.value !== VisibilityState.NonImmersive;
+    if (immersive && this.spectator?.mode !== "free") return;
+
+    const blend = 1 - Math.exp(-POSITION_SMOOTHING * delta);
+    // On a real table the map stays where this viewer placed it; only heading and size follow
+    if (!(this.globals.tabletop as TabletopSystem | undefined)?.isActive) {
+      this.position.fromArray(state.position);
+      mesh.parent?.updateWorldMatrix(true, false);
+      mesh.parent?.worldToLocal(this.position);
+      mesh.position.lerp(this.position, blend);
+    }
+    mesh.quaternion.slerp(this.quaternion.fromArray(state.quaternion), blend);
+    mesh.scale.setScalar(THREE.MathUtils.lerp(mesh.scale.x, state.scale, blend));
+  }
+
+  // ---------- Pointers ----------
+
+  // Pointer events come from the map hologram, like calibration clicks
+  private attachPointer(mesh: PointerTarget | undefined) {
+    if (mesh === this.pointerMesh) return;
+    this.pointerMesh?.removeEventListener("pointermove", this.onPointerMove);
+    this.pointerMesh?.removeEventListener("pointerleave", this.onPointerLeave);
+    this.pointerMesh = mesh;
+    mesh?.addEventListener("pointermove", this.onPointerMove);
+    mesh?.addEventListener("pointerleave", this.onPointerLeave);
+    this.onPointerLeave();
+  }
+
+  private sendPointer() {
+    const now = performance.now();
+    const map = this.mapManager?.current;
+    if (!this.pointerDirty || !map || now - this.lastPointerSent < POINTER_INTERVAL_MS) return;
+    this.pointerDirty = false;
+    this.lastPointerSent = now;
+    this.client!.send({ type: "pointer", map: map.config.id, point: this.pointer ? this.pointer.toArray() : null });
+  }
+
+  private setMarker(id: string, map: string, point: [number, number, number] | null) {
+    if (!point) {
+      this.removeMarker(id);
+      return;
+    }
+    let marker = this.markers.get(id);
+    if (!marker) {
+      marker = new THREE.Mesh(this.markerGeometry, new THREE.MeshBasicMaterial({
+        color: this.participants.get(id)?.color ?? 0xffffff,
+        transparent: true,
+        opacity: 0.9,
+        depthTest: false,
+      }));
+      marker.renderOrder = 15;
+      this.markers.set(id, marker);
+    }
+    marker.userData.map = map;
+    marker.position.fromArray(point);
+  }
+
+  // Markers live in map-local space, so they stay on the spot whatever each viewer did to their map
+  private updateMarkers() {
+    const map = this.mapManager?.current;
+    if (!map) return;
+    const radius = MARKER_RADIUS / map.mesh.getWorldScale(this.scale).x;
+
+    this.markers.forEach((marker) => {
+      marker.visible = marker.userData.map === map.config.id;
+      if (!marker.visible) return;
+      if (marker.parent !== map.mesh) map.mesh.add(marker);
+      marker.scale.setScalar(radius);
+    });
+  }
+
+  private removeMarker(id: string) {
+    const marker = this.markers.get(id);
+    if (!marker) return;
+    marker.removeFromParent();
+    (marker.material as THREE.Material).dispose();
+    this.markers.delete(id);
+  }
+
+  private clearMarkers() {
+    [...this.markers.keys()].forEach(id => this.removeMarker(id));
+  }
+}
@@ -0,0 +1,84 @@
+// src/rooms/roomClient.ts
+import { ROOM_PATH, type RoomClientMessage, type RoomServerMessage } from "../../shared/rooms.js";
+import { withToken } from "../Visualizer/config";
+
+const MIN_RECONNECT_MS = 500;
+const MAX_RECONNECT_MS = 10000;
+
+// https://host → wss://host/rooms?room=…&name=…
+export function roomUrl(relayUrl: string, room: string, name: string, token = ""): string {
+  const url = new URL(relayUrl.replace(/^http/, "ws") + ROOM_PATH);
+  url.searchParams.set("room", room);
+  if (name) url.searchParams.set("name", name);
+  return withToken(url.toString(), token);
+}
+
+// Room socket with the live stream's reconnect backoff; the relay re-sends the room
+// state (welcome) on every connect, so nothing needs replaying afterwards
+export class RoomClient {
+  private socket?: WebSocket;
+  private reconnectTimer?: number;
+  private reconnectDelay = MIN_RECONNECT_MS;
+  private closed = false;
+
+  constructor(
+    private url: () => string,  // Built per connect, like the live stream's
+    private onMessage: (message: RoomServerMessage) => void,
+    private onOpenChange: (open: boolean) => void
+  ) {}
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  connect(): void {
+    this.closed = false;
+
+    try {
+      this.socket = new WebSocket(this.url());
+    } catch (e) {
+      console.warn("[Room] Connect failed", e);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket.onopen = () => {
+      this.reconnectDelay = MIN_RECONNECT_MS;
+      this.onOpenChange(true);
+    };
+
+    this.socket.onmessage = (event) => {
+      try {
+        this.onMessage(JSON.parse(event.data) as RoomServerMessage);
+      } catch (e) {
+        console.warn("[Room] Bad message", e);
+      }
+    };
+
+    this.socket.onclose = () => {
+      this.socket = undefined;
+      this.onOpenChange(false);
+      this.scheduleReconnect();
+    };
+  }
+
+  send(message: RoomClientMessage): void {
+    if (this.isOpen) this.socket!.send(JSON.stringify(message));
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = undefined;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed) return;
+    this.reconnectTimer = window.setTimeout(() => this.connect(), this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_MS);
+  }
+}
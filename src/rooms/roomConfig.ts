@@ -0,0 +1,6 @@
+// ?room=<id> in the page URL joins that spectating room on the relay; ?name=<name>
+// is what the others see (the relay numbers anonymous viewers)
+const params = new URLSearchParams(window.location.search);
+
+export const ROOM: string | undefined = params.get("room") ?? undefined;
+export const ROOM_NAME: string = params.get("name") ?? "";
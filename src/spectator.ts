@@ -0,0 +1,305 @@
+// src/spectator.ts
+import * as THREE from "three";
+import { createSystem, VisibilityState } from "@iwsdk/core";
+
+import type { MapManager } from "./maps/mapManager";
+import type { PlayerVisualizer } from "./Visualizer/PlayerVisualizer";
+
+export type SpectatorMode = "free" | "follow" | "pov" | "orbit";
+export const SPECTATOR_MODES: SpectatorMode[] = ["free", "follow", "pov", "orbit"];
+
+// Desktop distances are hologram-local units (a player sphere has radius 1), so they suit any map scale
+const FOLLOW_DISTANCE = 12;
+const FOLLOW_HEIGHT = 5;
+const ORBIT_RADIUS = 60;
+const ORBIT_MIN_RADIUS = 5;
+const ORBIT_MAX_RADIUS = 400;
+const ORBIT_ELEVATION = 0.6;      // Radians above the horizon
+const ORBIT_SPEED = 0.15;         // Radians/s of the automatic turn
+const ORBIT_KEY_SPEED = 1.2;      // Radians/s with the arrow keys
+const ORBIT_ZOOM_SPEED = 1.5;     // Radius doubles in about half a second with the arrow keys
+
+// XR: the hologram is placed this far (metres) in front of and below the viewer's head
+const XR_ANCHOR_DISTANCE = 0.6;
+const XR_ANCHOR_DROP = 0.35;
+
+// 1/s; higher tracks the target more tightly, lower is smoother
+const POSITION_SMOOTHING = 6;
+const ROTATION_SMOOTHING = 10;
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+interface MapPose {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  scale: number;
+}
+
+/**
+ * Spectator camera (C cycles the mode, [ and ] the player): follow a player from
+ * behind, look through their eyes, or orbit them (or the map centre). On desktop the
+ * camera moves; in XR the viewer stays put and the map hologram is moved around them.
+ */
+export class SpectatorSystem extends createSystem({}) {
+  private currentMode: SpectatorMode = "free";
+  private targetId?: string;
+  private keys = new Set<string>();
+
+  private orbitAngle = 0;
+  private orbitRadius = ORBIT_RADIUS;
+
+  // XR: where the focus point is pinned and which way the player faces, taken when a mode
+  // or target starts so turning your head doesn't swing the map
+  private anchor?: { position: THREE.Vector3; forward: THREE.Vector3 };
+  private home?: { mesh: THREE.Object3D } & MapPose;
+  private wasImmersive = false;
+
+  private eye = new THREE.Vector3();
+  private facing = new THREE.Vector3(0, 0, 1);
+  private focus = new THREE.Vector3();
+  private desired = new THREE.Vector3();
+  private lookTarget = new THREE.Vector3();
+  private forward = new THREE.Vector3();
+  private scale = new THREE.Vector3();
+  private mapQuaternion = new THREE.Quaternion();
+  private targetQuaternion = new THREE.Quaternion();
+  private parentQuaternion = new THREE.Quaternion();
+  private lookMatrix = new THREE.Matrix4();
+
+  private get visualizer(): PlayerVisualizer | undefined {
+    return this.globals.visualizer;
+  }
+
+  private get mapManager(): MapManager | undefined {
+    return this.globals.mapManager;
+  }
+
+  get mode(): SpectatorMode {
+    return this.currentMode;
+  }
+
+  /** Id of the followed player, if any. */
+  get target(): string | undefined {
+    return this.targetId;
+  }
+
+  /** Name of the followed player, if any. */
+  get targetName(): string | undefined {
+    return this.targetId ? this.visualizer?.playerName(this.targetId) : undefined;
+  }
+
+  init() {
+    this.globals.spectator = this;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      this.keys.add(e.code);
+      if (e.code === "KeyC") this.cycleMode();
+      if (e.code === "BracketRight") this.cycleTarget(1);
+      if (e.code === "BracketLeft") this.cycleTarget(-1);
+    };
+    const onKeyUp = (e: KeyboardEvent) => this.keys.delete(e.code);
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    this.cleanupFuncs.push(() => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+    });
+  }
+
+  setMode(mode: SpectatorMode) {
+    this.currentMode = mode;
+    this.anchor = undefined;
+    if (mode === "free") {
+      this.restoreMap();
+    } else if (!this.targetId) {
+      this.cycleTarget(1);
+    }
+  }
+
+  cycleMode() {
+    this.setMode(SPECTATOR_MODES[(SPECTATOR_MODES.indexOf(this.currentMode) + 1) % SPECTATOR_MODES.length]);
+  }
+
+  /** Follows a specific player, e.g. the one a room's host picked. */
+  setTarget(id: string | undefined) {
+    if (id === this.targetId) return;
+    this.targetId = id;
+    this.anchor = undefined;
+  }
+
+  /** Steps through the players currently alive on the map. */
+  cycleTarget(step: number) {
+    const ids = this.visualizer?.activePlayerIds ?? [];
+    if (!ids.length) {
+      this.targetId = undefined;
+      return;
+    }
+    const index = this.targetId ? ids.indexOf(this.targetId) : -1;
+    this.targetId = ids[(((index < 0 && step < 0 ? 0 : index) + step) % ids.length + ids.length) % ids.length];
+    this.anchor = undefined;
+  }
+
+  update(delta: number) {
+    const immersive = this.world.visibilityState.value !== VisibilityState.NonImmersive;
+    if (immersive !== this.wasImmersive) {
+      // The desktop camera pose means nothing in XR and the other way round
+      this.wasImmersive = immersive;
+      this.anchor = undefined;
+      if (!immersive) this.restoreMap();
+    }
+    if (this.currentMode === "free") return;
+
+    const visualizer = this.visualizer;
+    const mesh = this.mapManager?.current?.mesh;
+    if (!visualizer || !mesh) return;
+
+    // A target that left the map hands over to the next player
+    const hasTarget = !!this.targetId && visualizer.playerView(this.targetId, this.eye, this.facing);
+    if (!hasTarget) {
+      this.cycleTarget(1);
+      if (!this.targetId || !visualizer.playerView(this.targetId, this.eye, this.facing)) {
+        if (this.currentMode !== "orbit") return;
+        // Nothing to watch: orbit the middle of the map
+        this.targetId = undefined;
+        this.mapManager!.current!.config.boundingBox.getCenter(this.eye);
+      }
+    }
+
+    if (this.currentMode === "orbit") this.steerOrbit(delta);
+
+    if (immersive) {
+      this.updateHologram(mesh, visualizer, delta);
+    } else {
+      this.updateCamera(mesh, delta);
+    }
+  }
+
+  // Arrow keys turn and zoom the orbit; it keeps turning slowly on its own
+  private steerOrbit(delta: number) {
+    let turn = ORBIT_SPEED;
+    if (this.keys.has("ArrowLeft")) turn -= ORBIT_KEY_SPEED;
+    if (this.keys.has("ArrowRight")) turn += ORBIT_KEY_SPEED;
+    this.orbitAngle += turn * delta;
+
+    let zoom = 0;
+    if (this.keys.has("ArrowUp")) zoom -= ORBIT_ZOOM_SPEED;
+    if (this.keys.has("ArrowDown")) zoom += ORBIT_ZOOM_SPEED;
+    this.orbitRadius = THREE.MathUtils.clamp(this.orbitRadius * Math.exp(zoom * delta), ORBIT_MIN_RADIUS, ORBIT_MAX_RADIUS);
+  }
+
+  private updateCamera(mesh: THREE.Object3D, delta: number) {
+    const camera = this.world.camera;
+    const scale = mesh.getWorldScale(this.scale).x;
+    mesh.localToWorld(this.focus.copy(this.eye));
+    this.forward.copy(this.facing).transformDirection(mesh.matrixWorld);
+
+    switch (this.currentMode) {
+      case "follow":
+        this.forward.y = 0;
+        if (this.forward.lengthSq() === 0) this.forward.set(0, 0, 1);
+        this.forward.normalize();
+        this.desired.copy(this.focus)
+          .addScaledVector(this.forward, -FOLLOW_DISTANCE * scale)
+          .addScaledVector(UP, FOLLOW_HEIGHT * scale);
+        this.lookTarget.copy(this.focus);
+        break;
+      case "pov":
+        this.desired.copy(this.focus);
+        this.lookTarget.copy(this.focus).add(this.forward);
+        break;
+      case "orbit": {
+        const radius = this.orbitRadius * scale;
+        const flat = Math.cos(ORBIT_ELEVATION) * radius;
+        this.desired.set(
+          this.focus.x + Math.sin(this.orbitAngle) * flat,
+          this.focus.y + Math.sin(ORBIT_ELEVATION) * radius,
+          this.focus.z + Math.cos(this.orbitAngle) * flat
+        );
+        this.lookTarget.copy(this.focus);
+        break;
+      }
+    }
+
+    // First person snaps into the head; the third-person modes glide
+    const positionBlend = this.currentMode === "pov" ? 1 : 1 - Math.exp(-POSITION_SMOOTHING * delta);
+    const rotationBlend = 1 - Math.exp(-ROTATION_SMOOTHING * delta);
+
+    camera.parent?.updateWorldMatrix(true, false);
+    const position = camera.parent ? camera.parent.worldToLocal(this.desired) : this.desired;
+    camera.position.lerp(position, positionBlend);
+
+    // Cameras look down -Z, which is what Matrix4.lookAt builds for (eye, target)
+    camera.getWorldPosition(this.desired);
+    this.lookMatrix.lookAt(this.desired, this.lookTarget, UP);
+    this.targetQuaternion.setFromRotationMatrix(this.lookMatrix);
+    if (camera.parent) {
+      this.targetQuaternion.premultiply(camera.parent.getWorldQuaternion(this.parentQuaternion).invert());
+    }
+    camera.quaternion.slerp(this.targetQuaternion, rotationBlend);
+  }
+
+  // Moves the map so the focus lands on a fixed point near the viewer, turned so the
+  // player faces the way the viewer did when the mode started
+  private updateHologram(mesh: THREE.Object3D, visualizer: PlayerVisualizer, delta: number) {
+    this.saveMapHome(mesh);
+    const head = this.player.head;
+
+    if (!this.anchor) {
+      head.getWorldDirection(this.forward);
+      // Object3D.getWorldDirection is +Z; the head looks down -Z
+      this.forward.negate().setY(0);
+      if (this.forward.lengthSq() === 0) this.forward.set(0, 0, -1);
+      this.forward.normalize();
+
+      const position = head.getWorldPosition(new THREE.Vector3());
+      if (this.currentMode !== "pov") {
+        position.addScaledVector(this.forward, XR_ANCHOR_DISTANCE).setY(position.y - XR_ANCHOR_DROP);
+      }
+      this.anchor = { position, forward: this.forward.clone() };
+    }
+
+    const scale = this.currentMode === "pov" ? visualizer.lifeSizeScale : this.home!.scale;
+    let yaw: number;
+    if (this.currentMode === "orbit") {
+      yaw = this.orbitAngle;
+    } else {
+      // Rotate the player's flat facing onto the anchor's forward
+      const facingYaw = Math.atan2(this.facing.x, this.facing.z);
+      const forwardYaw = Math.atan2(this.anchor.forward.x, this.anchor.forward.z);
+      yaw = forwardYaw - facingYaw;
+    }
+    this.mapQuaternion.setFromAxisAngle(UP, yaw);
+
+    // position = anchor − R·S·focus, in the map's parent space
+    this.desired.copy(this.eye).multiplyScalar(scale).applyQuaternion(this.mapQuaternion);
+    this.desired.subVectors(this.anchor.position, this.desired);
+    if (mesh.parent) mesh.parent.worldToLocal(this.desired);
+
+    const positionBlend = 1 - Math.exp(-POSITION_SMOOTHING * delta);
+    const rotationBlend = 1 - Math.exp(-ROTATION_SMOOTHING * delta);
+    mesh.position.lerp(this.desired, positionBlend);
+    mesh.quaternion.slerp(this.mapQuaternion, rotationBlend);
+    mesh.scale.setScalar(THREE.MathUtils.lerp(mesh.scale.x, scale, positionBlend));
+  }
+
+  // Remember where the map was before spectating moved it, so free mode can put it back
+  private saveMapHome(mesh: THREE.Object3D) {
+    if (this.home?.mesh === mesh) return;
+    this.restoreMap();
+    this.home = {
+      mesh,
+      position: mesh.position.clone(),
+      quaternion: mesh.quaternion.clone(),
+      scale: mesh.scale.x,
+    };
+  }
+
+  private restoreMap() {
+    const home = this.home;
+    if (!home) return;
+    home.mesh.position.copy(home.position);
+    home.mesh.quaternion.copy(home.quaternion);
+    home.mesh.scale.setScalar(home.scale);
+    this.home = undefined;
+  }
+}
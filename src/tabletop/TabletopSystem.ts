@@ -0,0 +1,315 @@
+import * as THREE from "three";
+import { createComponent, createSystem, VisibilityState } from "@iwsdk/core";
+
+import type { MapManager } from "../maps/mapManager";
+import { AR_MODE } from "../xrConfig";
+import { clearAnchorHandle, loadAnchorHandle, saveAnchorHandle } from "./placementStore";
+
+// Virtual furniture that would sit in the middle of the real room
+export const HideInAR = createComponent("HideInAR", {});
+
+const MIN_SURFACE_UP = 0.9;       // Hits must face up this much (cos of the tilt) to count as a table
+const FALLBACK_DISTANCE = 0.6;    // Without hit-testing, place this far in front of the viewer…
+const FALLBACK_DROP = 0.4;        // …and this far below their eyes
+const SELECT_GRACE_MS = 300;      // The click on "Place map" must not also place it
+
+interface MapPose {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+}
+
+/**
+ * Tabletop mode for passthrough AR sessions: hides the virtual room, shows a
+ * reticle where the viewer looks at a real surface and, on select, anchors the
+ * map there. The anchor is made persistent when the runtime allows it, so the map
+ * comes back on the same table next session.
+ */
+export class TabletopSystem extends createSystem({
+  scenery: { required: [HideInAR] },
+}) {
+  private active = false;
+  private placing = false;
+  private placeRequested = false;
+  private placingSince = 0;
+  private session?: XRSession;
+  private hitTestSource?: XRHitTestSource;
+  private lastHit?: XRHitTestResult;
+
+  // Where the map sits, in XR reference space: an anchor when the runtime has them, else a fixed pose
+  private anchor?: XRAnchor;
+  private fixedPose?: THREE.Matrix4;
+  private appliedPose = new THREE.Matrix4();
+  private placedMesh?: THREE.Object3D;
+  private homes = new Map<THREE.Object3D, MapPose>();
+
+  private background: THREE.Scene["background"] = null;
+  private reticle!: THREE.Mesh;
+
+  private pose = new THREE.Matrix4();
+  private delta = new THREE.Matrix4();
+  private position = new THREE.Vector3();
+  private quaternion = new THREE.Quaternion();
+  private scale = new THREE.Vector3();
+  private up = new THREE.Vector3();
+
+  // Hit results and anchors need the frame they belong to, so placing waits for update()
+  private onSelect = () => {
+    if (this.placing && performance.now() - this.placingSince > SELECT_GRACE_MS) this.placeRequested = true;
+  };
+
+  private get mapManager(): MapManager | undefined {
+    return this.globals.mapManager;
+  }
+
+  /** In a passthrough session. */
+  get isActive(): boolean {
+    return this.active;
+  }
+
+  /** Waiting for the viewer to pick a surface. */
+  get isPlacing(): boolean {
+    return this.placing;
+  }
+
+  init() {
+    this.globals.tabletop = this;
+
+    this.reticle = new THREE.Mesh(
+      new THREE.RingGeometry(0.06, 0.08, 32).rotateX(-Math.PI / 2),
+      new THREE.MeshBasicMaterial({ color: 0x22c55e, transparent: true, opacity: 0.9, depthTest: false })
+    );
+    this.reticle.matrixAutoUpdate = false;
+    this.reticle.visible = false;
+    this.reticle.renderOrder = 20;
+    this.world.scene.add(this.reticle);
+
+    this.queries.scenery.subscribe("qualify", (entity) => {
+      if (entity.object3D) entity.object3D.visible = !this.active;
+    });
+  }
+
+  update() {
+    const session = this.world.session;
+    const ar = AR_MODE && !!session && this.world.visibilityState.value !== VisibilityState.NonImmersive;
+    if (ar && !this.active) this.begin(session!);
+    if (!ar && this.active) this.end();
+    if (!this.active) return;
+
+    const frame = this.world.renderer.xr.getFrame();
+    const space = this.world.renderer.xr.getReferenceSpace();
+    if (!frame || !space) return;
+
+    if (this.placing) {
+      this.updateReticle(frame, space);
+      if (this.placeRequested) this.place(frame, space);
+    }
+    this.followPlacement(frame, space);
+  }
+
+  /** Show the reticle again; the next select moves the map and replaces the saved anchor. */
+  async startPlacing() {
+    const session = this.session;
+    if (!session || this.placing) return;
+    this.placing = true;
+    this.placingSince = performance.now();
+
+    try {
+      const viewer = await session.requestReferenceSpace("viewer");
+      this.hitTestSource = await session.requestHitTestSource?.({ space: viewer });
+    } catch (e) {
+      console.warn("[Tabletop] Hit-testing unavailable; the map will be placed in front of you", e);
+    }
+  }
+
+  /** Stand the current map on the placed surface again, e.g. after its view was reset. */
+  reseat() {
+    this.placedMesh = undefined;
+  }
+
+  private begin(session: XRSession) {
+    this.active = true;
+    this.session = session;
+    this.setSceneryVisible(false);
+
+    // The generated backdrop would cover the passthrough video
+    this.background = this.world.scene.background;
+    this.world.scene.background = null;
+
+    session.addEventListener("select", this.onSelect);
+    this.restoreAnchor(session);
+  }
+
+  private end() {
+    this.session?.removeEventListener("select", this.onSelect);
+    this.stopPlacing();
+
+    // Anchors die with their session; put every map back where it was before AR
+    this.anchor = undefined;
+    this.fixedPose = undefined;
+    this.placedMesh = undefined;
+    this.homes.forEach((home, mesh) => {
+      mesh.position.copy(home.position);
+      mesh.quaternion.copy(home.quaternion);
+    });
+    this.homes.clear();
+
+    this.world.scene.background = this.background;
+    this.setSceneryVisible(true);
+    this.session = undefined;
+    this.active = false;
+  }
+
+  private async restoreAnchor(session: XRSession) {
+    const handle = loadAnchorHandle();
+    if (handle && session.restorePersistentAnchor) {
+      try {
+        this.anchor = await session.restorePersistentAnchor(handle);
+        console.log("[Tabletop] Restored the saved table");
+        return;
+      } catch (e) {
+        // The room was reset or the anchor deleted on the device
+        console.warn("[Tabletop] Saved table not found; pick a surface", e);
+        clearAnchorHandle();
+      }
+    }
+    await this.startPlacing();
+  }
+
+  private stopPlacing() {
+    this.placing = false;
+    this.placeRequested = false;
+    this.hitTestSource?.cancel();
+    this.hitTestSource = undefined;
+    this.lastHit = undefined;
+    this.reticle.visible = false;
+  }
+
+  private updateReticle(frame: XRFrame, space: XRReferenceSpace) {
+    this.lastHit = undefined;
+    this.reticle.visible = false;
+    if (!this.hitTestSource) return;
+
+    for (const hit of frame.getHitTestResults(this.hitTestSource)) {
+      const pose = hit.getPose(space);
+      if (!pose) continue;
+      this.toWorld(pose.transform.matrix, this.pose);
+      // Column 1 of the pose is the surface normal: only roughly horizontal, upward surfaces
+      if (this.up.setFromMatrixColumn(this.pose, 1).normalize().y < MIN_SURFACE_UP) continue;
+
+      this.lastHit = hit;
+      this.reticle.matrix.copy(this.pose);
+      this.reticle.visible = true;
+      return;
+    }
+  }
+
+  private async place(frame: XRFrame, space: XRReferenceSpace) {
+    const hit = this.lastHit;
+    this.stopPlacing();
+
+    const previous = this.anchor;
+    this.anchor = undefined;
+    this.fixedPose = undefined;
+    this.placedMesh = undefined;
+
+    const pose = hit ? new THREE.Matrix4().fromArray(hit.getPose(space)!.transform.matrix) : this.fallbackPose();
+    let anchor: XRAnchor | undefined;
+    try {
+      anchor = await (hit ? hit.createAnchor?.() : frame.createAnchor?.(this.toRigidTransform(pose), space));
+    } catch (e) {
+      console.warn("[Tabletop] Anchors unavailable; the placement lasts this session only", e);
+    }
+
+    previous?.delete();
+    if (anchor) {
+      this.anchor = anchor;
+      this.replaceSavedAnchor(anchor);
+    } else {
+      // Same spot, just not tracked or remembered
+      this.fixedPose = pose;
+    }
+  }
+
+  private async replaceSavedAnchor(anchor: XRAnchor) {
+    const oldHandle = loadAnchorHandle();
+    if (oldHandle) {
+      clearAnchorHandle();
+      await this.session?.deletePersistentAnchor?.(oldHandle).catch(() => undefined);
+    }
+    try {
+      const handle = await anchor.requestPersistentHandle?.();
+      if (handle) saveAnchorHandle(handle);
+    } catch (e) {
+      console.warn("[Tabletop] This device can't remember anchors; the map is placed for this session", e);
+    }
+  }
+
+  // In front of and below the viewer's eyes, in reference space
+  private fallbackPose(): THREE.Matrix4 {
+    const head = this.player.head;
+    const eyes = head.getWorldPosition(new THREE.Vector3());
+    // Object3D.getWorldDirection is +Z; the head looks down -Z
+    const forward = head.getWorldDirection(new THREE.Vector3()).negate().setY(0).normalize();
+    const position = eyes.addScaledVector(forward, FALLBACK_DISTANCE);
+    position.y -= FALLBACK_DROP;
+    this.player.updateWorldMatrix(true, false);
+    this.player.worldToLocal(position);
+    return new THREE.Matrix4().makeTranslation(position);
+  }
+
+  private toRigidTransform(pose: THREE.Matrix4): XRRigidTransform {
+    pose.decompose(this.position, this.quaternion, this.scale);
+    const { x, y, z } = this.position;
+    const q = this.quaternion;
+    return new XRRigidTransform({ x, y, z }, { x: q.x, y: q.y, z: q.z, w: q.w });
+  }
+
+  // Snap a newly shown map onto the placement; after that only pass on the anchor's
+  // corrections, so a map grabbed and nudged on the table stays where it was put
+  private followPlacement(frame: XRFrame, space: XRReferenceSpace) {
+    const mesh = this.mapManager?.current?.mesh;
+    if (!mesh) return;
+
+    if (this.anchor) {
+      const pose = frame.getPose(this.anchor.anchorSpace, space);
+      if (!pose) return;
+      this.toWorld(pose.transform.matrix, this.pose);
+    } else if (this.fixedPose) {
+      this.toWorld(this.fixedPose.elements, this.pose);
+    } else {
+      return;
+    }
+
+    if (mesh !== this.placedMesh) {
+      this.snap(mesh);
+      this.placedMesh = mesh;
+    } else if (!this.pose.equals(this.appliedPose)) {
+      this.delta.copy(this.appliedPose).invert().premultiply(this.pose);
+      mesh.updateMatrix();
+      mesh.matrix.premultiply(this.delta).decompose(mesh.position, mesh.quaternion, this.scale);
+    }
+    this.appliedPose.copy(this.pose);
+  }
+
+  // Stand the map's lowest point on the surface, centred on it, keeping its heading
+  private snap(mesh: THREE.Object3D) {
+    if (!this.homes.has(mesh)) {
+      this.homes.set(mesh, { position: mesh.position.clone(), quaternion: mesh.quaternion.clone() });
+    }
+    const lift = mesh.position.y - new THREE.Box3().setFromObject(mesh).min.y;
+    this.pose.decompose(this.position, this.quaternion, this.scale);
+    mesh.position.set(this.position.x, this.position.y + lift, this.position.z);
+  }
+
+  // XR poses are relative to the player rig, which locomotion may have moved
+  private toWorld(elements: ArrayLike<number>, target: THREE.Matrix4): THREE.Matrix4 {
+    this.player.updateWorldMatrix(true, false);
+    return target.fromArray(elements as number[]).premultiply(this.player.matrixWorld);
+  }
+
+  private setSceneryVisible(visible: boolean) {
+    this.queries.scenery.entities.forEach((entity) => {
+      if (entity.object3D) entity.object3D.visible = visible;
+    });
+  }
+}
@@ -0,0 +1,29 @@
+const STORAGE_KEY = 'flowz.tabletop.anchor';
+
+// Persistent anchor handle (a UUID from XRAnchor.requestPersistentHandle) of the table the map was placed on
+
+export function loadAnchorHandle(): string | undefined {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Storage may be unavailable (private mode, quota); the placement then isn't remembered
+
+export function saveAnchorHandle(handle: string): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, handle);
+  } catch {
+    // Nothing to do; the anchor still holds for this session
+  }
+}
+
+export function clearAnchorHandle(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to do; a stale handle just fails to restore next time
+  }
+}
@@ -1,20 +1,23 @@
 // Shared types for map configs and player visualization
 
 import * as THREE from 'three';
+import type { PlayerVisualizerConfig } from './Visualizer/types';
+
+// Affine game-space → hologram-local transform: local = matrix · game + offset
+export interface MapTransform {
+  matrix: number[];               // 3×3, row-major (same order as THREE.Matrix3.set)
+  offset: [number, number, number];
+}
 
 export interface MapConfig {
-  meshKey: string;
+  id: string;
+  name: string;
+  adapter: string;                // Telemetry adapter of the game this map belongs to
+  meshKey: string;                // AssetManager cache key
+  assetUrl: string;               // GLTF/GLB under public/, loaded on first use
   position: THREE.Vector3;
   scale: number;
-  boundingBox: THREE.Box3;
-}
-
-export interface PlayerVisualizerConfig {
-  dataUrl: string;
-  useMock?: boolean;
-  playerRadius: number;
-  playerColor?: number;
-  debugMode?: boolean;
-  showBounds?: boolean;
-  boundingBox: THREE.Box3;
+  boundingBox: THREE.Box3;        // Playable area in hologram-local units
+  transform: MapTransform;
+  visualizer?: Partial<PlayerVisualizerConfig>;  // Per-map overrides (label size, bounds…)
 }
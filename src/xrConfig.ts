@@ -0,0 +1,4 @@
+// ?xr=ar in the page URL (or VITE_XR_MODE=ar in .env.local) starts a passthrough AR session
+// that places the map on a real table instead of the virtual desk
+export const AR_MODE: boolean =
+  (new URLSearchParams(window.location.search).get("xr") ?? import.meta.env.VITE_XR_MODE) === "ar";
@@ -14,6 +14,8 @@ export default defineConfig(({ mode }) => ({
             device: "metaQuest3",
             activation: "localhost",
             verbose: true,
+            // Synthetic room with a table, so ?xr=ar hit-testing works in the emulator
+            sem: { defaultScene: "living_room" },
           }),
         ]
       : []),